@@ -0,0 +1,248 @@
+import { AccountInfo } from "@solana/web3.js";
+import { compress, decompress } from "@mongodb-js/zstd";
+import { promises as fs } from "fs";
+import path from "path";
+
+const FILE_PREFIX = "accounts-";
+// JSON lines, each appended entry is its own zstd frame and the frames decompress as one
+const FILE_SUFFIX = ".jsonl.zst";
+// each frame is preceded by a zstd skippable frame holding its length, zstd ignores it and the reader hops frame to frame
+const LENGTH_FRAME_MAGIC = 0x184d2a50;
+const LENGTH_FRAME_SIZE = 12;
+// a snapshot is written in parts, so the event loop is not blocked stringifying every account
+const SNAPSHOT_PART_SIZE = 1_000;
+
+export function getAccountRecorderConfig() {
+  return {
+    // no directory, nothing is recorded
+    dir: process.env.ACCOUNT_RECORDER_DIR,
+    // a new file starting with a full snapshot is opened every that many slots, about an hour
+    rotateSlots: Number(process.env.ACCOUNT_RECORDER_ROTATE_SLOTS || 9_000),
+    maxFiles: Number(process.env.ACCOUNT_RECORDER_MAX_FILES || 24),
+    // past that many pending writes the deltas are dropped and the next one starts a new file
+    maxQueuedWrites: Number(
+      process.env.ACCOUNT_RECORDER_MAX_QUEUED_WRITES || 1_000
+    ),
+  };
+}
+
+// one JSON line per snapshot part or delta, the account data stays base64+zstd like the rpc returns it
+type RecordedEntry = {
+  type: "snapshot" | "delta";
+  contextSlot: number;
+  accounts: Array<[string, AccountInfo<string[]>]>;
+};
+
+function createLengthFrame(length: number) {
+  const frame = Buffer.alloc(LENGTH_FRAME_SIZE);
+  frame.writeUInt32LE(LENGTH_FRAME_MAGIC, 0);
+  frame.writeUInt32LE(4, 4);
+  frame.writeUInt32LE(length, 8);
+  return frame;
+}
+
+function getFileName(contextSlot: number) {
+  // padded so the files sort by slot
+  return `${FILE_PREFIX}${String(contextSlot).padStart(12, "0")}${FILE_SUFFIX}`;
+}
+
+async function listFiles(dir: string) {
+  const files = await fs.readdir(dir);
+  return files
+    .filter(
+      (file) => file.startsWith(FILE_PREFIX) && file.endsWith(FILE_SUFFIX)
+    )
+    .sort()
+    .map((file) => ({
+      file: path.join(dir, file),
+      startSlot: Number(file.slice(FILE_PREFIX.length, -FILE_SUFFIX.length)),
+    }));
+}
+
+/**
+ * Append the account deltas with their contextSlot to local files, so the amm state of a past slot can be rebuilt.
+ * Each file starts with a snapshot of every account, the oldest files are deleted past maxFiles.
+ * The writes are queued in the background, a failure is logged and the next delta starts a new file.
+ */
+export function createAccountRecorder(config = getAccountRecorderConfig()) {
+  let accountInfosMap: Map<string, AccountInfo<string[]>> | undefined;
+  let file: string | undefined;
+  let fileStartSlot = 0;
+  // counts the files, the queued writes to a file that failed are skipped
+  let fileIndex = 0;
+  let failedFileIndex = -1;
+  // a write was dropped or failed, the current file misses a delta and the next one starts a new file
+  let needsSnapshot = false;
+
+  let queue = Promise.resolve();
+  let queuedWrites = 0;
+
+  function enqueue(write: () => Promise<void>) {
+    if (queuedWrites >= config.maxQueuedWrites) {
+      needsSnapshot = true;
+      return;
+    }
+    const [writeFile, writeFileIndex] = [file, fileIndex];
+    queuedWrites++;
+    queue = queue
+      .then(() => (writeFileIndex === failedFileIndex ? undefined : write()))
+      .catch((e) => {
+        console.error(`Failed to record the accounts to ${writeFile}`, e);
+        failedFileIndex = writeFileIndex;
+        needsSnapshot = true;
+      })
+      .finally(() => {
+        queuedWrites--;
+      });
+  }
+
+  async function append(filePath: string, entry: RecordedEntry) {
+    const frame = await compress(Buffer.from(JSON.stringify(entry) + "\n"));
+    await fs.appendFile(
+      filePath,
+      Buffer.concat([createLengthFrame(frame.length), frame])
+    );
+  }
+
+  async function writeSnapshot(
+    filePath: string,
+    contextSlot: number,
+    accounts: Array<[string, AccountInfo<string[]>]>
+  ) {
+    const dir = config.dir!;
+    await fs.mkdir(dir, { recursive: true });
+    try {
+      for (let idx = 0; idx < accounts.length; idx += SNAPSHOT_PART_SIZE) {
+        await append(filePath, {
+          type: "snapshot",
+          contextSlot,
+          accounts: accounts.slice(idx, idx + SNAPSHOT_PART_SIZE),
+        });
+      }
+    } catch (e) {
+      // a partial snapshot cannot be replayed
+      await fs.unlink(filePath).catch(() => undefined);
+      throw e;
+    }
+
+    // the new file is complete, failing to clean up is only logged
+    await listFiles(dir)
+      .then((files) =>
+        Promise.all(
+          files
+            .slice(0, Math.max(files.length - config.maxFiles, 0))
+            .map(({ file }) => fs.unlink(file))
+        )
+      )
+      .catch(console.error);
+  }
+
+  function rotate(contextSlot: number) {
+    // copied now, the map keeps being updated while the snapshot waits in the queue
+    const accounts = Array.from(accountInfosMap!.entries());
+    const filePath = path.join(config.dir!, getFileName(contextSlot));
+    file = filePath;
+    fileStartSlot = contextSlot;
+    fileIndex++;
+    needsSnapshot = false;
+    enqueue(() => writeSnapshot(filePath, contextSlot, accounts));
+  }
+
+  return {
+    enabled: Boolean(config.dir),
+    /**
+     * Start a file with every account, the map is kept to snapshot it again on rotation.
+     */
+    recordSnapshot(
+      contextSlot: number,
+      allAccountInfosMap: Map<string, AccountInfo<string[]>>
+    ) {
+      if (!config.dir) return;
+      accountInfosMap = allAccountInfosMap;
+      rotate(contextSlot);
+    },
+    recordDelta(
+      contextSlot: number,
+      updatedAccountInfosMap: Map<string, AccountInfo<string[]>>
+    ) {
+      if (!config.dir || !accountInfosMap) return;
+      // the snapshot of the new file already has the delta, the map is updated before recording
+      if (needsSnapshot || contextSlot - fileStartSlot >= config.rotateSlots) {
+        rotate(contextSlot);
+        return;
+      }
+      const filePath = file!;
+      const entry: RecordedEntry = {
+        type: "delta",
+        contextSlot,
+        accounts: Array.from(updatedAccountInfosMap.entries()),
+      };
+      enqueue(() => append(filePath, entry));
+    },
+  };
+}
+
+/**
+ * Rebuild the accounts as of the slot from the recorded files: the last snapshot before it and the deltas up to it.
+ * The entries are decompressed one at a time and the file is read no further than the slot.
+ */
+export async function readRecordedAccounts(
+  dir: string,
+  slot: number
+): Promise<{
+  contextSlot: number;
+  accountInfosMap: Map<string, AccountInfo<string[]>>;
+}> {
+  const files = (await listFiles(dir)).filter(
+    ({ startSlot }) => startSlot <= slot
+  );
+  const recordedFile = files[files.length - 1];
+  if (!recordedFile) {
+    throw new Error(`No recording in ${dir} starts before slot ${slot}`);
+  }
+
+  const accountInfosMap = new Map<string, AccountInfo<string[]>>();
+  let contextSlot = 0;
+  const handle = await fs.open(recordedFile.file, "r");
+  try {
+    const lengthFrame = Buffer.alloc(LENGTH_FRAME_SIZE);
+    let position = 0;
+    while (true) {
+      const { bytesRead } = await handle.read(
+        lengthFrame,
+        0,
+        LENGTH_FRAME_SIZE,
+        position
+      );
+      // the end of the file, or an append cut short by a crash
+      if (
+        bytesRead < LENGTH_FRAME_SIZE ||
+        lengthFrame.readUInt32LE(0) !== LENGTH_FRAME_MAGIC
+      ) {
+        break;
+      }
+      const frame = Buffer.alloc(lengthFrame.readUInt32LE(8));
+      const { bytesRead: frameBytesRead } = await handle.read(
+        frame,
+        0,
+        frame.length,
+        position + LENGTH_FRAME_SIZE
+      );
+      if (frameBytesRead < frame.length) break;
+      position += LENGTH_FRAME_SIZE + frame.length;
+
+      // the file starts with the parts of its snapshot, then come the deltas
+      const entry: RecordedEntry = JSON.parse(
+        (await decompress(frame)).toString()
+      );
+      if (entry.contextSlot > slot) break;
+
+      entry.accounts.forEach(([key, value]) => accountInfosMap.set(key, value));
+      contextSlot = entry.contextSlot;
+    }
+  } finally {
+    await handle.close();
+  }
+
+  return { contextSlot, accountInfosMap };
+}
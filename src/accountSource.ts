@@ -0,0 +1,230 @@
+import { createHash } from "crypto";
+import { AccountInfo, Connection, PublicKey } from "@solana/web3.js";
+import { chunkedGetRawMultipleAccountInfos } from "./utils/chunks";
+import {
+  deserializeAccountInfo,
+  serializeAccountInfo,
+} from "./utils/accountInfos";
+import { commitment } from "./utils/connection";
+import { wait } from "./utils/wait";
+
+export type RawAccountInfosMap = Map<string, AccountInfo<string[]>>;
+
+export type AccountSourceUpdateHandler = (
+  contextSlot: number,
+  accountInfosMap: RawAccountInfosMap
+) => Promise<void>;
+
+/**
+ * Where the fetcher gets its accounts from, accounts are base64+zstd encoded like the rpc returns them.
+ */
+export interface AccountSource {
+  /** Fetch every tracked account once */
+  fetchAll(): Promise<[number, RawAccountInfosMap]>;
+  /** Track a new account, for amms with dynamic accounts */
+  addAddress(address: string): void;
+  /**
+   * Produce updates until an error occurs, the accounts passed might not all have changed.
+   * An update means accounts arrived or a fetch succeeded, the fetcher watchdog relies on it.
+   */
+  start(onUpdate: AccountSourceUpdateHandler): Promise<void>;
+}
+
+export type AccountSourceConfig = {
+  type: "poll" | "subscription";
+  // Programs to watch with a single program subscription instead of one subscription per account
+  programIds: PublicKey[];
+};
+
+export function getAccountSourceConfig(): AccountSourceConfig {
+  return {
+    type:
+      process.env.ACCOUNT_SOURCE === "subscription" ? "subscription" : "poll",
+    programIds: (process.env.ACCOUNT_SOURCE_PROGRAM_IDS || "")
+      .split(",")
+      .filter(Boolean)
+      .map((programId) => new PublicKey(programId.trim())),
+  };
+}
+
+function createAddressSet(addresses: string[]) {
+  const set = new Set(addresses);
+  // we have this to prevent doing Array.from in the loop and waste computation
+  const array = Array.from(set);
+  return {
+    set,
+    array,
+    add(address: string) {
+      if (set.has(address)) return false;
+      set.add(address);
+      array.push(address);
+      return true;
+    },
+  };
+}
+
+/**
+ * Poll every account with batched getMultipleAccounts.
+ */
+export function createPollingAccountSource(
+  connection: Connection,
+  addresses: string[],
+  intervalMs = 200
+): AccountSource {
+  const addressesToFetch = createAddressSet(addresses);
+
+  const fetchAll = () =>
+    chunkedGetRawMultipleAccountInfos(connection, addressesToFetch.array);
+
+  return {
+    fetchAll,
+    addAddress(address) {
+      addressesToFetch.add(address);
+    },
+    async start(onUpdate) {
+      while (true) {
+        const [contextSlot, accountInfosMap] = await fetchAll();
+        await onUpdate(contextSlot, accountInfosMap);
+        await wait(intervalMs);
+      }
+    },
+  };
+}
+
+/**
+ * Push account changes from websocket subscriptions, with a slow poll to catch missed notifications.
+ */
+export function createSubscriptionAccountSource(
+  connection: Connection,
+  addresses: string[],
+  { programIds }: Pick<AccountSourceConfig, "programIds">,
+  { flushIntervalMs = 100, fallbackPollIntervalMs = 5_000 } = {}
+): AccountSource {
+  const addressesToFetch = createAddressSet(addresses);
+  const programIdSet = new Set(programIds.map((id) => id.toBase58()));
+  const ownerByAddress = new Map<string, string>();
+  // hash of the last data per account, the rpc and us compress differently so compressed data cannot be compared
+  const dataHashByAddress = new Map<string, string>();
+  const subscribedAddresses = new Set<string>();
+
+  let pendingAccountInfosMap: RawAccountInfosMap = new Map();
+  let pendingContextSlot = 0;
+  let started = false;
+
+  const hashData = (data: Buffer) =>
+    createHash("sha1").update(data).digest("base64");
+
+  async function onAccountInfo(
+    address: string,
+    accountInfo: AccountInfo<Buffer>,
+    slot: number
+  ) {
+    const dataHash = hashData(accountInfo.data);
+    if (dataHashByAddress.get(address) === dataHash) return;
+    dataHashByAddress.set(address, dataHash);
+
+    pendingAccountInfosMap.set(
+      address,
+      await serializeAccountInfo(accountInfo)
+    );
+    pendingContextSlot = Math.max(pendingContextSlot, slot);
+  }
+
+  function subscribeAddress(address: string) {
+    const owner = ownerByAddress.get(address);
+    if (subscribedAddresses.has(address) || (owner && programIdSet.has(owner)))
+      return;
+
+    subscribedAddresses.add(address);
+    connection.onAccountChange(
+      new PublicKey(address),
+      (accountInfo, { slot }) => {
+        onAccountInfo(address, accountInfo, slot).catch(console.error);
+      },
+      commitment
+    );
+  }
+
+  async function fetchAll(): Promise<[number, RawAccountInfosMap]> {
+    const [contextSlot, accountInfosMap] =
+      await chunkedGetRawMultipleAccountInfos(
+        connection,
+        addressesToFetch.array
+      );
+
+    const changedAccountInfosMap: RawAccountInfosMap = new Map();
+    await Promise.all(
+      Array.from(accountInfosMap.entries()).map(async ([address, value]) => {
+        ownerByAddress.set(address, value.owner.toString());
+        const { data } = await deserializeAccountInfo(value);
+        const dataHash = hashData(data);
+        if (dataHashByAddress.get(address) !== dataHash) {
+          dataHashByAddress.set(address, dataHash);
+          changedAccountInfosMap.set(address, value);
+        }
+      })
+    );
+
+    return [contextSlot, changedAccountInfosMap];
+  }
+
+  return {
+    fetchAll,
+    addAddress(address) {
+      if (addressesToFetch.add(address) && started) {
+        subscribeAddress(address);
+      }
+    },
+    async start(onUpdate) {
+      started = true;
+
+      programIdSet.forEach((programId) => {
+        connection.onProgramAccountChange(
+          new PublicKey(programId),
+          ({ accountId, accountInfo }, { slot }) => {
+            const address = accountId.toBase58();
+            if (addressesToFetch.set.has(address)) {
+              onAccountInfo(address, accountInfo, slot).catch(console.error);
+            }
+          },
+          commitment
+        );
+      });
+      addressesToFetch.array.forEach(subscribeAddress);
+
+      let lastPollTime = process.uptime();
+      while (true) {
+        await wait(flushIntervalMs);
+
+        let polled = false;
+        if (process.uptime() - lastPollTime > fallbackPollIntervalMs / 1000) {
+          lastPollTime = process.uptime();
+          polled = true;
+          const [contextSlot, accountInfosMap] = await fetchAll();
+          accountInfosMap.forEach((value, key) => {
+            pendingAccountInfosMap.set(key, value);
+          });
+          pendingContextSlot = Math.max(pendingContextSlot, contextSlot);
+        }
+
+        // an empty flush would keep the watchdog quiet with a dead websocket
+        if (pendingAccountInfosMap.size === 0 && !polled) continue;
+
+        const accountInfosMap = pendingAccountInfosMap;
+        pendingAccountInfosMap = new Map();
+        await onUpdate(pendingContextSlot, accountInfosMap);
+      }
+    },
+  };
+}
+
+export function createAccountSource(
+  connection: Connection,
+  addresses: string[],
+  config: AccountSourceConfig = getAccountSourceConfig()
+): AccountSource {
+  if (config.type === "subscription") {
+    return createSubscriptionAccountSource(connection, addresses, config);
+  }
+  return createPollingAccountSource(connection, addresses);
+}
@@ -1,36 +1,109 @@
 import fastify from "fastify";
 import {
   Jupiter,
-  MarketInfo,
   RouteInfo,
-  SplitTradeAmm,
   SwapMode,
   TransactionFeeInfo,
   routeMapToIndexedRouteMap,
 } from "@jup-ag/core";
-import {
-  AccountInfo,
-  PublicKey,
-  Transaction,
-  TransactionMessage,
-} from "@solana/web3.js";
+import { AccountInfo, PublicKey } from "@solana/web3.js";
 import Swagger from "@fastify/swagger";
 import { isMainThread, Worker } from "worker_threads";
 import cors from "@fastify/cors";
+import websocket from "@fastify/websocket";
 import { connection } from "./utils/connection";
 import { runGetAccountInfosProcess } from "./getAccountInfosProcess";
-import type { Amm } from "@jup-ag/core/dist/lib/amm";
+import { createQuoteSubscriptions } from "./quoteSubscriptions";
+import { createStalenessTracker } from "./staleness";
+import { createOutputHistory } from "./outputHistory";
+import { createQuoteCache } from "./quoteCache";
+import { createHealthCheck, WorkerState } from "./health";
+import { redis } from "./utils/redis";
+import { simulateSwapTransaction } from "./utils/simulation";
+import { ComputeBudget, setAutoComputeBudget } from "./utils/computeBudget";
+import {
+  fitsInTransaction,
+  getInstructions,
+  getSwapInstructionIndex,
+  isComputeBudgetInstruction,
+  serializeInstruction,
+  splitSwapTransaction,
+  SwapTransactionPart,
+  updateInstructions,
+} from "./utils/transaction";
 import { OpenAPIV3 } from "openapi-types";
-import { createPaymentInstruction } from "./utils/payment";
+import {
+  createPaymentInstructions,
+  getPaymentAmounts,
+  Payment,
+} from "./utils/payment";
 import JSBI from "jsbi";
-import { BN } from "bn.js";
 import metricsPlugin from "fastify-metrics";
-import { MAX_SLIPPAGE_BPS, MIN_SLIPPAGE_BPS } from "./utils/slippage";
+import {
+  AUTO_SLIPPAGE,
+  AutoSlippage,
+  MAX_SLIPPAGE_BPS,
+  MIN_SLIPPAGE_BPS,
+  recommendSlippage,
+  withSlippageBps,
+} from "./utils/slippage";
 import { MAX_SAFE_U64 } from "./utils/u64";
 import sensible from "@fastify/sensible";
 import { ammsToExclude } from "./ammsToExclude";
+import { getAmmIds, RouteStaleness, serializeRouteInfo } from "./utils/route";
+import { getMintDecimals, getMintTokenProgram } from "./utils/tokens";
+import {
+  applyTransferFees,
+  getEpoch,
+  getMintInfos,
+  getRouteMints,
+  getUnsupportedMint,
+  touchesAccounts,
+  useToken2022Accounts,
+} from "./utils/token2022";
+import { getRouteDrift } from "./utils/requote";
+import {
+  checkGuardrails,
+  getGuardrailLimits,
+  getReferenceAmount,
+  GuardrailOverrides,
+  GuardrailViolation,
+  MAX_GUARDRAIL_BPS,
+} from "./utils/guardrails";
+import { createRouteExplainer } from "./utils/explain";
+import {
+  isSplitTradeRoute,
+  RANK_BY,
+  RankBy,
+  rankRoutes,
+  SPLIT_TRADES,
+  SplitTrades,
+} from "./utils/routeRanking";
+import {
+  countAmmsByDex,
+  getLegAmms,
+  isDexFilterEmpty,
+  matchesDexFilter,
+  parseList,
+} from "./utils/dexFilter";
+import {
+  getTokens,
+  loadTokenRegistry,
+  resolveToken,
+  ResolvedToken,
+} from "./utils/tokenRegistry";
+import Decimal from "decimal.js";
+import { ApiError, ErrorResponse } from "./errors";
+import { ApiKey, createApiKeys, getUsageDate } from "./apiKeys";
+import rateLimit from "@fastify/rate-limit";
+import { createIntegrators } from "./integrators";
+import { getFeeAccount, getFeeAccountStatus, MAX_FEE_BPS } from "./utils/fee";
 
 const IS_DEV = process.env.IS_DEV;
+const DEFAULT_MAX_ROUTES = 3;
+const MAX_ROUTES = 20;
+// not rate limited
+const UNLIMITED_ROUTES = new Set(["/health", "/ready", "/metrics"]);
 
 const server = fastify({
   logger: false,
@@ -68,6 +141,11 @@ const MarketInfo: OpenAPIV3.SchemaObject = {
         pct: { type: "number" },
       },
     },
+    lastUpdatedSlot: {
+      type: "integer",
+      nullable: true,
+      description: "Slot of the last account update applied to the AMM",
+    },
   },
 };
 
@@ -103,6 +181,51 @@ const Route: OpenAPIV3.SchemaObject = {
         "The threshold for the swap based on the provided slippage: when swapMode is ExactIn the minimum out amount, when swapMode is ExactOut the maximum in amount",
     },
     swapMode: { type: "string", enum: ["ExactIn", "ExactOut"] },
+    quoteId: {
+      type: "string",
+      description:
+        "Pass it to /swap to build the transaction for this route, expires after QUOTE_TTL_SECONDS",
+    },
+    autoSlippage: {
+      type: "object",
+      description:
+        "Only returned with slippageBps=auto, how the slippageBps of the route was chosen",
+      properties: {
+        slippageBps: { type: "integer" },
+        volatilityBps: {
+          type: "integer",
+          description:
+            "Sum over the hops of the spread of their recent outputs for the pair",
+        },
+        volatilityPartBps: { type: "integer" },
+        hopsPartBps: { type: "integer" },
+        priceImpactPartBps: { type: "integer" },
+        hops: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              ammIds: { type: "array", items: { type: "string" } },
+              samples: {
+                type: "integer",
+                description: "Outputs recorded in the window",
+              },
+              volatilityBps: {
+                type: "integer",
+                nullable: true,
+                description: "Missing until the hop has 2 samples",
+              },
+            },
+          },
+        },
+        reasons: { type: "array", items: { type: "string" } },
+      },
+    },
+    stale: {
+      type: "boolean",
+      description:
+        "The route was computed from account data lagging the chain, the swap might fail on slippage",
+    },
     fees: {
       description: "Only returned when userPublicKey is given to /quote",
       nullable: true,
@@ -189,6 +312,46 @@ const PriceHash: OpenAPIV3.SchemaObject = {
   },
 };
 
+const Token: OpenAPIV3.SchemaObject = {
+  type: "object",
+  required: ["address", "symbol", "decimals"],
+  properties: {
+    address: { type: "string", description: "Mint address of the token" },
+    symbol: { type: "string" },
+    name: { type: "string" },
+    decimals: { type: "integer" },
+    logoURI: { type: "string", nullable: true },
+  },
+  example: {
+    address: "So11111111111111111111111111111111111111112",
+    symbol: "SOL",
+    name: "Wrapped SOL",
+    decimals: 9,
+    logoURI:
+      "https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet/So11111111111111111111111111111111111111112/logo.png",
+  },
+};
+
+const Instruction: OpenAPIV3.SchemaObject = {
+  type: "object",
+  required: ["programId", "accounts", "data"],
+  properties: {
+    programId: { type: "string" },
+    accounts: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          pubkey: { type: "string" },
+          isSigner: { type: "boolean" },
+          isWritable: { type: "boolean" },
+        },
+      },
+    },
+    data: { type: "string", description: "Base64 encoded instruction data" },
+  },
+};
+
 server.addSchema({
   $id: "MarketInfo",
   ...MarketInfo,
@@ -209,13 +372,48 @@ server.addSchema({
   ...PriceHash,
 });
 
-const mockGetDepositFee = () => Promise.resolve(undefined);
+server.addSchema({
+  $id: "Token",
+  ...Token,
+});
+
+server.addSchema({
+  $id: "Instruction",
+  ...Instruction,
+});
+
+server.addSchema({
+  $id: "Error",
+  ...ErrorResponse,
+});
+
+const errorResponses = {
+  "4xx": { $ref: "Error#" },
+  "5xx": { $ref: "Error#" },
+};
+
+server.setErrorHandler((error, _req, reply) => {
+  if (error instanceof ApiError) {
+    reply.code(error.statusCode).send(error.toJSON());
+    return;
+  }
+  if (error.validation) {
+    // the schema errors carry the catalog code like the others
+    const apiError = new ApiError("INVALID_REQUEST", error.message, {
+      validation: error.validation,
+    });
+    reply.code(apiError.statusCode).send(apiError.toJSON());
+    return;
+  }
+  reply.send(error);
+});
 
 async function start() {
   let startTime = process.uptime();
 
   await server.register(sensible);
   await server.register(metricsPlugin, { endpoint: "/metrics" });
+  await server.register(websocket);
 
   await server.register(cors, {
     origin: "*",
@@ -245,6 +443,29 @@ async function start() {
     exposeRoute: true,
   });
 
+  const apiKeys = createApiKeys({ redis });
+  server.decorateRequest("apiKey", undefined);
+  if (apiKeys.enabled) {
+    await server.register(rateLimit, {
+      redis,
+      timeWindow: "1 minute",
+      // per key, requests without a known key (other routes, missing or wrong keys) per ip
+      keyGenerator: (req) => req.apiKey?.key ?? req.ip,
+      // probes and scrapes poll from a few ips and must not be turned away
+      allowList: (req) => UNLIMITED_ROUTES.has(req.routerPath),
+      max: (req) =>
+        req.apiKey
+          ? req.apiKey.rateLimitPerMinute ?? apiKeys.defaultRateLimitPerMinute
+          : apiKeys.unauthenticatedRateLimitPerMinute,
+      errorResponseBuilder: (_req, { max, after }) =>
+        new ApiError(
+          "RATE_LIMITED",
+          `Rate limit of ${max} requests per minute exceeded, retry in ${after}`,
+          { max, after }
+        ).toJSON(),
+    });
+  }
+
   server.addHook("onError", async (req, reply, err) => {
     // dont log validation error
     if (!err.validation && err.statusCode !== 429) {
@@ -253,6 +474,8 @@ async function start() {
     }
   });
 
+  await loadTokenRegistry();
+
   const jupiter = await Jupiter.load({
     connection: connection,
     cluster: "mainnet-beta",
@@ -264,18 +487,22 @@ async function start() {
 
   const accountToAmmIdsMap = jupiter.getAccountToAmmIdsMap();
   const ammIdToAmmMap = jupiter.getAmmIdToAmmMap();
+  const dexes = countAmmsByDex(ammIdToAmmMap.values());
+  const dexLabels = new Set(dexes.map(({ label }) => label));
 
   const routeMap = jupiter.getRouteMap();
   const directRouteMapOnly = jupiter.getRouteMap(true);
   let blockhashWithExpiryBlockHeight = await connection.getLatestBlockhash(
     "confirmed"
   );
+  let blockhashTime = Date.now();
 
   // each blockhash can last about 1 minute, we refresh every second
   setInterval(async () => {
     blockhashWithExpiryBlockHeight = await connection.getLatestBlockhash(
       "confirmed"
     );
+    blockhashTime = Date.now();
   }, 1000);
 
   const store = {
@@ -283,89 +510,178 @@ async function start() {
     accountInfos: new Map<string, AccountInfo<Buffer>>(),
   };
 
+  const staleness = createStalenessTracker();
+  const outputHistory = createOutputHistory();
+
+  setInterval(() => {
+    connection
+      .getSlot()
+      .then((slot) => staleness.recordChainSlot(slot))
+      .catch(console.error);
+  }, 1000);
+
+  const quoteSubscriptions = createQuoteSubscriptions({
+    jupiter,
+    quoteRoutes: (request) =>
+      quoteRoutes(withIntegratorFee(request, undefined)),
+    getContextSlot: () => store.contextSlot,
+  });
+
   const worker = new Worker(__filename);
+  const workerState: WorkerState = {
+    online: false,
+    lastMessageTime: Date.now(),
+  };
+
+  worker.on("online", () => {
+    workerState.online = true;
+  });
 
   worker.on("error", (err) => {
+    workerState.online = false;
     console.error(err);
     process.exit(1);
   });
 
   worker.on("exit", () => {
+    workerState.online = false;
     console.log("worker exited");
     process.exit(1);
   });
 
-  // wait until the worker is ready`
-  let resolved = false;
-  await new Promise<void>((resolve) => {
-    if (IS_DEV) resolve(); // The fetcher does not run in local dev mode
-    worker.on(
-      "message",
-      ({
-        type,
-        contextSlot,
-        accountInfosMap,
-      }: {
-        type: string;
-        contextSlot: number;
-        accountInfosMap: Map<string, AccountInfo<Buffer>>;
-      }) => {
-        store.contextSlot = contextSlot;
-
-        // We are only updating the contextSlot.
-        if (type === "contextSlot") {
-          return;
-        }
+  const integrators = createIntegrators();
+
+  const quoteCache = createQuoteCache<QuoteParams>({
+    redis,
+    getAmm: (ammId) => ammIdToAmmMap.get(ammId),
+  });
 
-        const ammsIdsToUpdate = new Set<string>();
+  const getHealthReport = createHealthCheck({
+    redis,
+    staleness,
+    getWorkerState: () => workerState,
+    getBlockhashTime: () => blockhashTime,
+  });
 
-        accountInfosMap.forEach((value, key) => {
-          const ammIds = accountToAmmIdsMap.get(key);
-          ammIds?.forEach((ammId) => {
-            ammsIdsToUpdate.add(ammId);
-          });
+  type WorkerMessage = {
+    type: string;
+    contextSlot: number;
+    accountInfosMap: Map<string, AccountInfo<Buffer>>;
+  };
 
-          const accountInfo = store.accountInfos.get(key);
+  function applyWorkerMessage({
+    type,
+    contextSlot,
+    accountInfosMap,
+  }: WorkerMessage) {
+    store.contextSlot = contextSlot;
+    staleness.recordContextSlot(contextSlot);
+
+    // We are only updating the contextSlot.
+    if (type === "contextSlot") {
+      return;
+    }
 
-          // Hack to turn back the Uint8Array into a buffer so nothing unexpected occurs downstream
-          const newData = Buffer.from(value.data);
+    const ammsIdsToUpdate = new Set<string>();
 
-          if (accountInfo) {
-            accountInfo.data = newData;
-            store.accountInfos.set(key, accountInfo);
-          } else {
-            value.data = newData;
-            value.owner = new PublicKey(value.owner);
-            store.accountInfos.set(key, value);
-          }
-        });
+    accountInfosMap.forEach((value, key) => {
+      const ammIds = accountToAmmIdsMap.get(key);
+      ammIds?.forEach((ammId) => {
+        ammsIdsToUpdate.add(ammId);
+      });
 
-        // For most amms we would receive multiple accounts at once, we should update only once
-        ammsIdsToUpdate.forEach((ammId) => {
-          const amm = ammIdToAmmMap.get(ammId);
+      const accountInfo = store.accountInfos.get(key);
 
-          if (amm) {
-            try {
-              amm.update(store.accountInfos);
-            } catch (e) {
-              console.error(`Failed to update amm ${amm.id}, reason ${e}`);
-            }
-            if (amm.hasDynamicAccounts) {
-              amm.getAccountsForUpdate().forEach((pk) => {
-                const account = pk.toString();
-                const ammIds = accountToAmmIdsMap.get(account) || new Set();
-                ammIds.add(amm.id);
-                accountToAmmIdsMap.set(account, ammIds);
-              });
-            }
-          }
-        });
+      // Hack to turn back the Uint8Array into a buffer so nothing unexpected occurs downstream
+      const newData = Buffer.from(value.data);
 
-        if (!resolved) {
-          resolve();
+      if (accountInfo) {
+        accountInfo.data = newData;
+        store.accountInfos.set(key, accountInfo);
+      } else {
+        value.data = newData;
+        value.owner = new PublicKey(value.owner);
+        store.accountInfos.set(key, value);
+      }
+    });
+
+    // For most amms we would receive multiple accounts at once, we should update only once
+    ammsIdsToUpdate.forEach((ammId) => {
+      const amm = ammIdToAmmMap.get(ammId);
+
+      if (amm) {
+        try {
+          amm.update(store.accountInfos);
+          staleness.recordAmmUpdate(amm.id, contextSlot, false);
+        } catch (e) {
+          console.error(`Failed to update amm ${amm.id}, reason ${e}`);
+          staleness.recordAmmUpdate(amm.id, contextSlot, true);
+        }
+        if (amm.hasDynamicAccounts) {
+          amm.getAccountsForUpdate().forEach((pk) => {
+            const account = pk.toString();
+            const ammIds = accountToAmmIdsMap.get(account) || new Set();
+            ammIds.add(amm.id);
+            accountToAmmIdsMap.set(account, ammIds);
+          });
         }
       }
-    );
+    });
+
+    outputHistory.recordAmmUpdates(ammsIdsToUpdate, contextSlot);
+    quoteSubscriptions.notifyAmmsUpdated(ammsIdsToUpdate);
+  }
+
+  // While a snapshot is held, worker messages are queued so the amms and contextSlot do not move
+  let snapshotHolds = 0;
+  let heldWorkerMessages: WorkerMessage[] = [];
+  // overlapping batches could hold the snapshot forever, a queued message is applied after this anyway
+  const snapshotMaxHoldMs = Number(process.env.SNAPSHOT_MAX_HOLD_MS || 2_000);
+  let releaseTimeout: NodeJS.Timeout | undefined;
+
+  function releaseHeldWorkerMessages() {
+    clearTimeout(releaseTimeout);
+    releaseTimeout = undefined;
+    const messages = heldWorkerMessages;
+    heldWorkerMessages = [];
+    messages.forEach(applyWorkerMessage);
+  }
+
+  function holdWorkerMessage(message: WorkerMessage) {
+    heldWorkerMessages.push(message);
+    if (!releaseTimeout) {
+      releaseTimeout = setTimeout(releaseHeldWorkerMessages, snapshotMaxHoldMs);
+    }
+  }
+
+  async function withSnapshot<T>(fn: () => Promise<T>): Promise<T> {
+    snapshotHolds++;
+    try {
+      return await fn();
+    } finally {
+      snapshotHolds--;
+      if (snapshotHolds === 0) {
+        releaseHeldWorkerMessages();
+      }
+    }
+  }
+
+  // wait until the worker is ready`
+  let resolved = false;
+  await new Promise<void>((resolve) => {
+    if (IS_DEV) resolve(); // The fetcher does not run in local dev mode
+    worker.on("message", (message: WorkerMessage) => {
+      workerState.lastMessageTime = Date.now();
+      if (snapshotHolds > 0) {
+        holdWorkerMessage(message);
+      } else {
+        applyWorkerMessage(message);
+      }
+
+      if (!resolved) {
+        resolve();
+      }
+    });
   });
 
   const [externalDirectIndexedRouteMap, externalIndexedRouteMap] = [
@@ -378,26 +694,642 @@ async function start() {
     outputMint: string;
     amount: string;
     swapMode: string;
+    // a number of bps or auto
     slippageBps: string;
     feeBps?: string;
     onlyDirectRoutes?: boolean;
     userPublicKey?: string;
     asLegacyTransaction?: boolean;
+    referral?: string;
+    maxRoutes?: number;
+    rankBy?: RankBy;
+    splitTrades?: SplitTrades;
+    includeDexes?: string;
+    excludeDexes?: string;
+    excludeAmmIds?: string;
+    maxPriceImpactBps?: number;
+    maxPriceDeviationBps?: number;
+    allowNotEnoughLiquidity?: boolean;
+  }
+
+  // the quote params kept with the routes
+  type QuoteParams = IQuerystring & { integrator?: string };
+
+  /**
+   * Charge the fee of the integrator of the api key or referral, feeBps defaults to its cap.
+   */
+  function withIntegratorFee(
+    query: IQuerystring,
+    apiKey: ApiKey | undefined
+  ): QuoteParams {
+    const integrator = integrators.find({
+      apiKey: apiKey?.key,
+      referral: query.referral,
+    });
+    if (!integrator) {
+      if (query.referral) {
+        throw new ApiError("INVALID_REQUEST", "Unknown referral", {
+          referral: query.referral,
+        });
+      }
+      return query;
+    }
+
+    const feeBps =
+      query.feeBps !== undefined ? Number(query.feeBps) : integrator.maxFeeBps;
+    if (feeBps > integrator.maxFeeBps) {
+      throw new ApiError(
+        "INVALID_FEE",
+        `feeBps is above the ${integrator.maxFeeBps} bps of the integrator`,
+        { feeBps, maxFeeBps: integrator.maxFeeBps }
+      );
+    }
+    return { ...query, feeBps: String(feeBps), integrator: integrator.name };
+  }
+
+  async function computeQuote({
+    amount,
+    swapMode,
+    inputMint,
+    outputMint,
+    slippageBps,
+    feeBps,
+    onlyDirectRoutes,
+    userPublicKey,
+    asLegacyTransaction,
+    maxRoutes = IS_DEV ? Infinity : DEFAULT_MAX_ROUTES,
+    rankBy = "outAmount",
+    splitTrades = "allow",
+    includeDexes,
+    excludeDexes,
+    excludeAmmIds,
+    maxPriceImpactBps,
+    maxPriceDeviationBps,
+    allowNotEnoughLiquidity,
+  }: IQuerystring) {
+    // JSBI.BigInt throws a SyntaxError on decimals and signs
+    if (!/^\d+$/.test(amount)) {
+      throw new ApiError(
+        "INVALID_REQUEST",
+        "amount must be an integer in the smallest unit of the mint",
+        { amount }
+      );
+    }
+    const amountJSBI = JSBI.BigInt(amount);
+    const dexFilter = {
+      includeDexes: parseList(includeDexes),
+      excludeDexes: parseList(excludeDexes),
+      excludeAmmIds: parseList(excludeAmmIds),
+    };
+    const unknownDexes = [
+      ...(dexFilter.includeDexes ?? []),
+      ...(dexFilter.excludeDexes ?? []),
+    ].filter((label) => !dexLabels.has(label));
+    if (unknownDexes.length) {
+      throw new ApiError(
+        "INVALID_REQUEST",
+        "Unknown dex labels, see /v4/dexes for the loaded ones",
+        { unknownDexes }
+      );
+    }
+    const { policy } = staleness.config;
+
+    const { isStale, slotsBehind, msSinceUpdate } = staleness.getStaleness();
+    if (policy === "reject" && isStale) {
+      throw new ApiError(
+        "STALE_STATE",
+        "Account data is lagging the chain, try again later",
+        { slotsBehind, msSinceUpdate }
+      );
+    }
+
+    let inputToken: ResolvedToken, outputToken: ResolvedToken;
+    try {
+      inputToken = resolveToken(inputMint);
+      outputToken = resolveToken(outputMint);
+    } catch (e) {
+      throw new ApiError("INVALID_MINT", "Invalid inputMint or outputMint", {
+        inputMint,
+        outputMint,
+      });
+    }
+
+    if (JSBI.greaterThan(amountJSBI, MAX_SAFE_U64)) {
+      throw new ApiError(
+        "AMOUNT_TOO_LARGE",
+        `Amount is too large, max is ${MAX_SAFE_U64.toString()}`,
+        { amount, maxAmount: MAX_SAFE_U64.toString() }
+      );
+    }
+
+    const autoSlippage = slippageBps === AUTO_SLIPPAGE;
+    const noRoutesContext = { inputMint, outputMint, amount };
+    let computedRoutes: RouteInfo[];
+    try {
+      ({ routesInfos: computedRoutes } = await jupiter.computeRoutes({
+        inputMint: inputToken.mint,
+        outputMint: outputToken.mint,
+        amount: amountJSBI,
+        // the auto slippage is set on each route once computed
+        slippageBps: autoSlippage
+          ? MIN_SLIPPAGE_BPS
+          : Math.floor(Number(slippageBps ?? 5)),
+        feeBps: Number(feeBps) || undefined,
+        onlyDirectRoutes,
+        swapMode: swapMode as unknown as SwapMode, // TODO: Validate this at runtime properly
+        // the other rankings and the dex filters need more than the best routes to choose from
+        filterTopNResult:
+          rankBy !== "outAmount" ||
+          maxRoutes > DEFAULT_MAX_ROUTES ||
+          !isDexFilterEmpty(dexFilter)
+            ? 3
+            : asLegacyTransaction
+            ? 2
+            : 1,
+        asLegacyTransaction,
+      }));
+    } catch (e) {
+      // @jup-ag/core throws when no market leaves the input mint
+      if ((e as Error).message?.startsWith("No routes found")) {
+        throw new ApiError(
+          "NO_ROUTES_FOUND",
+          "No routes found for the input and output mints",
+          noRoutesContext
+        );
+      }
+      throw e;
+    }
+
+    // token-2022 mints the swap cannot move are refused, the transfer fees are taken out of the other routes
+    const mintInfos = await getMintInfos(
+      connection,
+      Array.from(
+        new Map(
+          (computedRoutes || [])
+            .flatMap(getRouteMints)
+            .map((mint) => [mint.toBase58(), mint])
+        ).values()
+      )
+    );
+    const supportedRoutes = (computedRoutes || []).filter(
+      (route) => !getUnsupportedMint(route, mintInfos)
+    );
+    if (computedRoutes?.length && supportedRoutes.length === 0) {
+      const unsupportedMint = getUnsupportedMint(computedRoutes[0], mintInfos)!;
+      throw new ApiError(
+        "UNSUPPORTED_TOKEN",
+        `The mint ${unsupportedMint.mint} has token-2022 extensions that cannot be swapped`,
+        unsupportedMint
+      );
+    }
+    const epoch = Array.from(mintInfos.values()).some(
+      ({ transferFeeConfig }) => transferFeeConfig
+    )
+      ? await getEpoch(connection)
+      : 0;
+    const routes = supportedRoutes.map((route) =>
+      applyTransferFees(route, mintInfos, epoch)
+    );
+
+    const stalenessByRoute = new Map<RouteInfo, RouteStaleness>();
+    routes.forEach((route) => {
+      const ammUpdates = route.marketInfos.map(({ amm }) =>
+        getAmmIds(amm).map((ammId) => staleness.getAmmUpdate(ammId))
+      );
+      stalenessByRoute.set(route, {
+        stale: route.marketInfos.some(({ amm }) =>
+          getAmmIds(amm).some(staleness.isAmmStale)
+        ),
+        lastUpdatedSlots: ammUpdates.map((updates) =>
+          updates.every(Boolean)
+            ? Math.min(...updates.map((update) => update!.slot))
+            : undefined
+        ),
+      });
+    });
+
+    const filteredRoutes = routes
+      .filter(
+        (route) => policy !== "reject" || !stalenessByRoute.get(route)!.stale
+      )
+      .filter(
+        (route) =>
+          splitTrades === "allow" ||
+          isSplitTradeRoute(route) === (splitTrades === "force")
+      )
+      .filter((route) => matchesDexFilter(route, dexFilter));
+
+    const guardrailLimits = getGuardrailLimits({
+      maxPriceImpactBps,
+      maxPriceDeviationBps,
+      allowNotEnoughLiquidity,
+    });
+    const referenceRoute =
+      filteredRoutes.length &&
+      guardrailLimits.maxPriceDeviationBps < MAX_GUARDRAIL_BPS
+        ? await computeReferenceRoute(filteredRoutes[0], onlyDirectRoutes)
+        : undefined;
+    const violationsByRoute = new Map<RouteInfo, GuardrailViolation[]>(
+      filteredRoutes.map((route) => [
+        route,
+        checkGuardrails(route, guardrailLimits, referenceRoute),
+      ])
+    );
+
+    const routesInfos = rankRoutes(
+      filteredRoutes.filter(
+        (route) => violationsByRoute.get(route)!.length === 0
+      ),
+      rankBy
+    ).slice(0, maxRoutes);
+
+    if (
+      policy === "reject" &&
+      routes.length &&
+      routes.every((route) => stalenessByRoute.get(route)!.stale)
+    ) {
+      const staleAmmIds = new Set<string>();
+      routes.forEach(({ marketInfos }) =>
+        marketInfos.forEach(({ amm }) =>
+          getAmmIds(amm)
+            .filter(staleness.isAmmStale)
+            .forEach((ammId) => staleAmmIds.add(ammId))
+        )
+      );
+      throw new ApiError(
+        "STALE_STATE",
+        "Every route goes through an AMM with stale state, try again later",
+        { staleAmmIds: Array.from(staleAmmIds) }
+      );
+    }
+
+    if (filteredRoutes.length && routesInfos.length === 0) {
+      const [bestRoute] = rankRoutes(filteredRoutes, rankBy);
+      throw new ApiError(
+        "GUARDRAIL_REJECTED",
+        "Every route breaks a safety limit",
+        { violations: violationsByRoute.get(bestRoute) }
+      );
+    }
+
+    if (routesInfos.length === 0) {
+      // the dex filter only sees the best routes computed, the routes it wants may not be among them
+      throw new ApiError(
+        "NO_ROUTES_FOUND",
+        isDexFilterEmpty(dexFilter)
+          ? "No routes found for the amount"
+          : "No routes found through the dexes of the filter",
+        {
+          ...noRoutesContext,
+          includeDexes:
+            dexFilter.includeDexes && Array.from(dexFilter.includeDexes),
+          excludeDexes:
+            dexFilter.excludeDexes && Array.from(dexFilter.excludeDexes),
+          excludeAmmIds:
+            dexFilter.excludeAmmIds && Array.from(dexFilter.excludeAmmIds),
+        }
+      );
+    }
+
+    let fees: TransactionFeeInfo[] = [];
+    if (userPublicKey) {
+      fees = await Promise.all(
+        routesInfos.map(async ({ marketInfos }) => {
+          return jupiter.getDepositAndFees({
+            marketInfos: marketInfos,
+            userPublicKey: new PublicKey(userPublicKey),
+          });
+        })
+      );
+    }
+
+    const routesAutoSlippage = autoSlippage
+      ? routesInfos.map(getAutoSlippage)
+      : [];
+
+    return {
+      routesInfos: autoSlippage
+        ? routesInfos.map((route, idx) =>
+            withSlippageBps(route, routesAutoSlippage[idx].slippageBps)
+          )
+        : routesInfos,
+      fees,
+      routesStaleness: routesInfos.map((route) => stalenessByRoute.get(route)!),
+      routesAutoSlippage,
+    };
+  }
+
+  /**
+   * The serialized routes of the quote, each with the quoteId it is cached under for /swap.
+   */
+  async function quoteRoutes(params: QuoteParams) {
+    const { routesInfos, fees, routesStaleness, routesAutoSlippage } =
+      await computeQuote(params);
+    const quoteIds = await quoteCache.storeRoutes(routesInfos, params);
+    return routesInfos.map((route, idx) => ({
+      ...serializeRouteInfo(
+        route,
+        fees[idx],
+        routesStaleness[idx],
+        routesAutoSlippage[idx]
+      ),
+      quoteId: quoteIds[idx],
+    }));
+  }
+
+  /**
+   * The best route of the pair for a small amount, its price is the reference the routes should not deviate too much from.
+   */
+  async function computeReferenceRoute(
+    { marketInfos, amount, swapMode }: RouteInfo,
+    onlyDirectRoutes?: boolean
+  ): Promise<RouteInfo | undefined> {
+    try {
+      const { routesInfos } = await jupiter.computeRoutes({
+        inputMint: marketInfos[0].inputMint,
+        outputMint: marketInfos[marketInfos.length - 1].outputMint,
+        amount: getReferenceAmount(amount),
+        slippageBps: 0,
+        onlyDirectRoutes,
+        swapMode,
+        filterTopNResult: 1,
+      });
+      return routesInfos[0];
+    } catch (e) {
+      // without a reference the deviation is not checked
+      console.error(`Failed to compute the reference route, reason ${e}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * The route violations of the guardrails, against a fresh reference route.
+   */
+  async function getRouteViolations(
+    route: RouteInfo,
+    overrides: GuardrailOverrides,
+    onlyDirectRoutes?: boolean
+  ) {
+    const limits = getGuardrailLimits(overrides);
+    const referenceRoute =
+      limits.maxPriceDeviationBps < MAX_GUARDRAIL_BPS
+        ? await computeReferenceRoute(route, onlyDirectRoutes)
+        : undefined;
+    return checkGuardrails(route, limits, referenceRoute);
+  }
+
+  /**
+   * Recommend the slippage of the route from the output history of its amms, and keep sampling them for the next quotes.
+   */
+  function getAutoSlippage(route: RouteInfo): AutoSlippage {
+    const hops = route.marketInfos.map(
+      ({ amm, inputMint, outputMint, inAmount }) => {
+        const amms = getLegAmms(amm);
+        const volatilities = amms.map(({ id }) =>
+          outputHistory.getVolatility(id, inputMint, outputMint)
+        );
+        amms.forEach((underlyingAmm) =>
+          outputHistory.track(
+            underlyingAmm,
+            inputMint,
+            outputMint,
+            inAmount,
+            store.contextSlot
+          )
+        );
+
+        // the most volatile amm of a split trade sets the hop volatility
+        return {
+          ammIds: amms.map(({ id }) => id),
+          samples: Math.min(...volatilities.map(({ samples }) => samples)),
+          volatilityBps: volatilities.some(
+            ({ volatilityBps }) => volatilityBps === undefined
+          )
+            ? undefined
+            : Math.max(
+                ...volatilities.map(({ volatilityBps }) => volatilityBps!)
+              ),
+        };
+      }
+    );
+    return recommendSlippage(route, hops);
+  }
+
+  const HealthReport: OpenAPIV3.SchemaObject = {
+    type: "object",
+    properties: {
+      ready: { type: "boolean" },
+      redis: {
+        type: "object",
+        properties: { ok: { type: "boolean" } },
+      },
+      worker: {
+        type: "object",
+        properties: {
+          ok: { type: "boolean" },
+          online: { type: "boolean" },
+          msSinceLastMessage: { type: "number" },
+        },
+      },
+      blockhash: {
+        type: "object",
+        properties: {
+          ok: { type: "boolean" },
+          ageMs: { type: "number" },
+        },
+      },
+      accounts: {
+        type: "object",
+        properties: {
+          ok: { type: "boolean" },
+          chainSlot: { type: "integer" },
+          contextSlot: { type: "integer" },
+          slotsBehind: { type: "integer" },
+          msSinceUpdate: { type: "number" },
+          failedAmmCount: {
+            type: "integer",
+            description: "AMMs whose last update failed",
+          },
+        },
+      },
+    },
+  };
+
+  server.get(
+    "/health",
+    {
+      schema: {
+        description: "Liveness, answers as long as the server is up",
+        response: {
+          200: {
+            description: "Default response",
+            type: "object",
+            properties: {
+              status: { type: "string" },
+              uptime: { type: "number" },
+            },
+          },
+        },
+      },
+    },
+    async () => {
+      return { status: "ok", uptime: process.uptime() };
+    }
+  );
+
+  server.get(
+    "/ready",
+    {
+      schema: {
+        description:
+          "Readiness, answers 503 when redis, the worker, the blockhash or the account data is not healthy",
+        response: {
+          200: HealthReport,
+          503: HealthReport,
+        },
+      },
+    },
+    async (_req, reply) => {
+      const report = await getHealthReport();
+      reply.code(report.ready ? 200 : 503);
+      return report;
+    }
+  );
+
+  if (apiKeys.enabled) {
+    server.get<{ Querystring: { date?: string } }>(
+      "/admin/usage",
+      {
+        schema: {
+          description:
+            "Requests of every api key on a day, needs an admin api key in the x-api-key header",
+          querystring: {
+            type: "object",
+            properties: {
+              date: {
+                type: "string",
+                pattern: "^\\d{4}-\\d{2}-\\d{2}$",
+                description: "UTC day as YYYY-MM-DD, default to today",
+              },
+            },
+          },
+          response: {
+            200: {
+              description: "Default response",
+              type: "object",
+              properties: {
+                date: { type: "string" },
+                keys: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      name: { type: "string" },
+                      keySuffix: { type: "string" },
+                      dailyQuota: { type: "integer", nullable: true },
+                      rateLimitPerMinute: { type: "integer" },
+                      total: { type: "integer" },
+                      routes: {
+                        type: "object",
+                        description: "Requests per route",
+                        additionalProperties: { type: "integer" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            ...errorResponses,
+          },
+        },
+      },
+      async (req) => {
+        const key = req.headers["x-api-key"];
+        const apiKey =
+          typeof key === "string" ? await apiKeys.getApiKey(key) : undefined;
+        if (!apiKey) {
+          throw new ApiError("UNAUTHORIZED", "Missing or unknown api key");
+        }
+        if (!apiKey.admin) {
+          throw new ApiError("FORBIDDEN", "Needs an admin api key");
+        }
+
+        const date = req.query.date ?? getUsageDate();
+        return { date, keys: await apiKeys.getUsage(date) };
+      }
+    );
   }
 
   server.register(
     (instance, _opts, next) => {
+      if (apiKeys.enabled) {
+        instance.addHook("onRequest", async (req) => {
+          // browsers cannot set headers on websockets, the key can be passed as a query param
+          const key =
+            req.headers["x-api-key"] ??
+            (req.query as { apiKey?: string }).apiKey;
+          req.apiKey =
+            typeof key === "string" ? await apiKeys.getApiKey(key) : undefined;
+        });
+
+        // after the rate limit, so requests without a valid key are limited per ip and rejected ones do not count
+        instance.addHook("preValidation", async (req) => {
+          const apiKey = req.apiKey;
+          if (!apiKey) {
+            throw new ApiError(
+              "UNAUTHORIZED",
+              "Missing or unknown api key, pass it in the x-api-key header"
+            );
+          }
+          const total = await apiKeys.recordUsage(
+            apiKey,
+            `${req.method} ${req.routerPath}`
+          );
+          if (apiKey.dailyQuota !== undefined && total > apiKey.dailyQuota) {
+            throw new ApiError(
+              "QUOTA_EXCEEDED",
+              `Daily quota of ${apiKey.dailyQuota} requests exceeded`,
+              { dailyQuota: apiKey.dailyQuota }
+            );
+          }
+        });
+      }
+
+      // the limits default to the GUARDRAIL_* env, routes breaking one are left out
+      const guardrailOverridesProperties: Record<
+        keyof GuardrailOverrides,
+        OpenAPIV3.SchemaObject
+      > = {
+        maxPriceImpactBps: {
+          type: "integer",
+          minimum: 0,
+          maximum: MAX_GUARDRAIL_BPS,
+          description: `Max price impact of the route, ${MAX_GUARDRAIL_BPS} to accept any`,
+        },
+        maxPriceDeviationBps: {
+          type: "integer",
+          minimum: 0,
+          maximum: MAX_GUARDRAIL_BPS,
+          description: `Max deviation of the route price below the price of a small amount, ${MAX_GUARDRAIL_BPS} to skip the check`,
+        },
+        allowNotEnoughLiquidity: {
+          type: "boolean",
+          description:
+            "Accept routes with a market reporting notEnoughLiquidity",
+        },
+      };
+
       const GetQuoteQueryString: OpenAPIV3.SchemaObject = {
         type: "object",
         required: ["inputMint", "outputMint", "amount"],
         properties: {
           inputMint: {
             type: "string",
-            description: "inputMint",
+            description: "inputMint, symbol or address of the token",
           },
           outputMint: {
             type: "string",
-            description: "outputMint",
+            description: "outputMint, symbol or address of the token",
           },
           amount: {
             type: "string",
@@ -409,15 +1341,29 @@ async function start() {
             description: "Swap mode, default is ExactIn",
           },
           slippageBps: {
-            type: "integer",
-            description: "Slippage bps",
-            minimum: MIN_SLIPPAGE_BPS,
-            maximum: MAX_SLIPPAGE_BPS,
+            // the string first so the integer coercion does not see auto
+            anyOf: [
+              { type: "string", enum: [AUTO_SLIPPAGE] },
+              {
+                type: "integer",
+                minimum: MIN_SLIPPAGE_BPS,
+                maximum: MAX_SLIPPAGE_BPS,
+              },
+            ],
+            description:
+              "Slippage bps, or auto to choose it per route from the recent volatility of its AMMs, its hops and its price impact",
           },
           feeBps: {
             type: "integer",
+            minimum: 0,
+            maximum: MAX_FEE_BPS,
             description:
-              "Fee BPS (only pass in if you want to charge a fee on this swap)",
+              "Fee BPS (only pass in if you want to charge a fee on this swap), default to the cap of the integrator when there is one",
+          },
+          referral: {
+            type: "string",
+            description:
+              "Referral of an integrator profile, its fee is charged and paid to its fee wallet",
           },
           onlyDirectRoutes: {
             type: "boolean",
@@ -434,6 +1380,40 @@ async function start() {
             description:
               "Only return routes that can be done in a single legacy transaction. (Routes might be limited)",
           },
+          maxRoutes: {
+            type: "integer",
+            minimum: 1,
+            maximum: MAX_ROUTES,
+            description: `Number of routes to return, default to ${DEFAULT_MAX_ROUTES}`,
+          },
+          rankBy: {
+            type: "string",
+            enum: [...RANK_BY],
+            description:
+              "Order of the routes, default to outAmount. fewestAccounts and lowestCompute favor routes that land more often on congested days, lowestCompute uses rough estimates per AMM",
+          },
+          splitTrades: {
+            type: "string",
+            enum: [...SPLIT_TRADES],
+            description:
+              "Return only split trade routes with force, or none with forbid, default to allow",
+          },
+          includeDexes: {
+            type: "string",
+            description:
+              "Comma separated dex labels, only route through these dexes, see /v4/dexes. The filter applies to the best routes computed, NO_ROUTES_FOUND when none is left",
+          },
+          excludeDexes: {
+            type: "string",
+            description:
+              "Comma separated dex labels, never route through these dexes, see /v4/dexes",
+          },
+          excludeAmmIds: {
+            type: "string",
+            description:
+              "Comma separated AMM ids, never route through these AMMs",
+          },
+          ...guardrailOverridesProperties,
         },
       };
       instance.get<{ Querystring: IQuerystring }>(
@@ -458,122 +1438,20 @@ async function start() {
                   contextSlot: { type: "integer" },
                 },
               },
+              ...errorResponses,
             },
           },
         },
-        async (req, reply) => {
-          const {
-            amount,
-            swapMode,
-            inputMint,
-            outputMint,
-            slippageBps,
-            feeBps,
-            onlyDirectRoutes,
-            userPublicKey,
-            asLegacyTransaction,
-          } = req.query;
+        async (req) => {
           try {
             const now = process.uptime();
-            const amountJSBI = JSBI.BigInt(amount);
-
-            if (JSBI.greaterThan(amountJSBI, MAX_SAFE_U64)) {
-              reply.badRequest(
-                `Amount is too large, max is ${MAX_SAFE_U64.toString()}`
-              );
-              return;
-            }
-
-            const { routesInfos: routes } = await jupiter.computeRoutes({
-              inputMint: new PublicKey(inputMint),
-              outputMint: new PublicKey(outputMint),
-              amount: JSBI.BigInt(amount),
-              slippageBps: Math.floor(Number(slippageBps ?? 5)),
-              feeBps: Number(feeBps) || undefined,
-              onlyDirectRoutes,
-              swapMode: swapMode as unknown as SwapMode, // TODO: Validate this at runtime properly
-              filterTopNResult: asLegacyTransaction ? 2 : 1,
-              asLegacyTransaction,
-            });
-            const timeTaken = process.uptime() - now;
-
-            const routesToReturn = (routes || []).slice(
-              0,
-              IS_DEV ? undefined : 3
+            const data = await quoteRoutes(
+              withIntegratorFee(req.query, req.apiKey)
             );
-
-            let fees: TransactionFeeInfo[] = [];
-            if (userPublicKey) {
-              fees = await Promise.all(
-                routesToReturn.map(async ({ marketInfos }) => {
-                  return jupiter.getDepositAndFees({
-                    marketInfos: marketInfos,
-                    userPublicKey: new PublicKey(userPublicKey),
-                  });
-                })
-              );
-            }
+            const timeTaken = process.uptime() - now;
 
             return {
-              data: routesToReturn.map(
-                (
-                  {
-                    inAmount,
-                    outAmount,
-                    marketInfos,
-                    amount,
-                    otherAmountThreshold,
-                    swapMode,
-                    priceImpactPct,
-                    slippageBps,
-                  },
-                  idx
-                ) => ({
-                  inAmount: inAmount.toString(),
-                  outAmount: outAmount.toString(),
-                  amount: amount.toString(),
-                  otherAmountThreshold: otherAmountThreshold.toString(),
-                  swapMode,
-                  priceImpactPct,
-                  slippageBps,
-                  marketInfos: marketInfos.map(
-                    ({
-                      amm,
-                      inputMint,
-                      outputMint,
-                      inAmount,
-                      outAmount,
-                      lpFee,
-                      platformFee,
-                      minInAmount,
-                      minOutAmount,
-                      ...info
-                    }) => ({
-                      id: amm.id,
-                      label: amm.label,
-                      inputMint: inputMint.toString(),
-                      outputMint: outputMint.toString(),
-                      inAmount: inAmount.toString(),
-                      outAmount: outAmount.toString(),
-                      ...(minInAmount &&
-                        minOutAmount && {
-                          minInAmount: minInAmount.toString(),
-                          minOutAmount: minOutAmount.toString(),
-                        }),
-                      lpFee: {
-                        ...lpFee,
-                        amount: lpFee.amount.toString(),
-                      },
-                      platformFee: {
-                        ...platformFee,
-                        amount: platformFee.amount.toString(),
-                      },
-                      ...info,
-                    })
-                  ),
-                  fees: fees[idx],
-                })
-              ),
+              data,
               timeTaken,
               contextSlot: store.contextSlot,
             };
@@ -584,54 +1462,284 @@ async function start() {
         }
       );
 
+      const ExplainedFee: OpenAPIV3.SchemaObject = {
+        type: "object",
+        properties: {
+          mint: { type: "string" },
+          pct: { type: "number" },
+          amount: { type: "string" },
+          inInputToken: {
+            type: "string",
+            description: "Fee valued in the input token, at the mid price",
+          },
+          inOutputToken: {
+            type: "string",
+            description: "Fee valued in the output token, at the mid price",
+          },
+        },
+      };
+
+      const RouteExplanation: OpenAPIV3.SchemaObject = {
+        type: "object",
+        properties: {
+          swapMode: { type: "string" },
+          slippageBps: { type: "integer" },
+          inAmount: { type: "string" },
+          outAmount: { type: "string" },
+          uiInAmount: { type: "string" },
+          uiOutAmount: { type: "string" },
+          uiOtherAmountThreshold: { type: "string" },
+          effectivePrice: {
+            type: "number",
+            description: "Output tokens received per input token",
+          },
+          midPrice: {
+            type: "number",
+            description:
+              "Output tokens per input token without fees nor price impact, derived from the price impact of each hop",
+          },
+          priceImpactPct: { type: "number" },
+          fees: {
+            type: "object",
+            description: "Fees of every hop, valued in the route tokens",
+            properties: {
+              inInputToken: { type: "string" },
+              inOutputToken: { type: "string" },
+            },
+          },
+          hops: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                label: { type: "string" },
+                inputMint: { type: "string" },
+                outputMint: { type: "string" },
+                inAmount: { type: "string" },
+                outAmount: { type: "string" },
+                uiInAmount: { type: "string" },
+                uiOutAmount: { type: "string" },
+                effectivePrice: { type: "number" },
+                midPrice: { type: "number" },
+                priceImpactPct: { type: "number" },
+                lpFee: ExplainedFee,
+                platformFee: ExplainedFee,
+                splitTrade: {
+                  type: "object",
+                  nullable: true,
+                  description: "Only for split trades",
+                  properties: {
+                    portions: { type: "array", items: { type: "integer" } },
+                    legs: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          id: { type: "string" },
+                          label: { type: "string" },
+                          portion: { type: "integer" },
+                          inAmount: { type: "string" },
+                          outAmount: { type: "string" },
+                          uiOutAmount: { type: "string" },
+                        },
+                      },
+                    },
+                    candidates: {
+                      type: "array",
+                      description:
+                        "Output of the other portions by steps of 10%, ExactIn only",
+                      items: {
+                        type: "object",
+                        properties: {
+                          portions: {
+                            type: "array",
+                            items: { type: "integer" },
+                          },
+                          outAmount: { type: "string" },
+                          uiOutAmount: { type: "string" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      instance.get<{ Querystring: IQuerystring }>(
+        "/quote/explain",
+        {
+          schema: {
+            description:
+              "Get the routes of a quote with a decimals aware breakdown of the prices, fees and price impact of every hop",
+            tags: [],
+            summary: "Return route explanations",
+            querystring: GetQuoteQueryString,
+            response: {
+              200: {
+                description: "Default response",
+                type: "object",
+                properties: {
+                  data: {
+                    type: "array",
+                    items: RouteExplanation,
+                  },
+                  contextSlot: { type: "integer" },
+                },
+              },
+              ...errorResponses,
+            },
+          },
+        },
+        async (req) => {
+          const { routesInfos } = await computeQuote(
+            withIntegratorFee(req.query, req.apiKey)
+          );
+
+          const mints = new Map<string, PublicKey>();
+          routesInfos.forEach(({ marketInfos }) =>
+            marketInfos.forEach(({ inputMint, outputMint }) => {
+              mints.set(inputMint.toBase58(), inputMint);
+              mints.set(outputMint.toBase58(), outputMint);
+            })
+          );
+          const explainRoute = createRouteExplainer(
+            await getMintDecimals(connection, Array.from(mints.values()))
+          );
+
+          return {
+            data: routesInfos.map(explainRoute),
+            contextSlot: store.contextSlot,
+          };
+        }
+      );
+
+      const QuotesBody: OpenAPIV3.SchemaObject = {
+        type: "object",
+        required: ["quotes"],
+        properties: {
+          quotes: {
+            type: "array",
+            minItems: 1,
+            maxItems: 100,
+            items: GetQuoteQueryString,
+          },
+        },
+      };
+
+      instance.post<{ Body: { quotes: IQuerystring[] } }>(
+        "/quotes",
+        {
+          schema: {
+            description:
+              "Get quotes for many input mint, output mint and amount combinations, all computed from the same contextSlot unless the batch takes longer than SNAPSHOT_MAX_HOLD_MS",
+            tags: [],
+            summary: "Return routes for each quote request",
+            body: QuotesBody,
+            response: {
+              200: {
+                description: "Default response",
+                type: "object",
+                properties: {
+                  data: {
+                    type: "array",
+                    description:
+                      "Results in the same order as the quotes, each with either data or error",
+                    items: {
+                      type: "object",
+                      properties: {
+                        data: {
+                          type: "array",
+                          items: Route,
+                        },
+                        error: { type: "string" },
+                        code: { type: "string" },
+                        context: { type: "object", additionalProperties: true },
+                      },
+                    },
+                  },
+                  timeTaken: { type: "number" },
+                  contextSlot: { type: "integer" },
+                },
+              },
+              ...errorResponses,
+            },
+          },
+        },
+        async (req) => {
+          const now = process.uptime();
+
+          return withSnapshot(async () => {
+            const data = await Promise.all(
+              req.body.quotes.map(async (quote) => {
+                try {
+                  return {
+                    data: await quoteRoutes(
+                      withIntegratorFee(quote, req.apiKey)
+                    ),
+                  };
+                } catch (e: any) {
+                  const error = e as Error;
+                  return error instanceof ApiError
+                    ? {
+                        error: error.message,
+                        code: error.code,
+                        context: error.context,
+                      }
+                    : { error: error.message };
+                }
+              })
+            );
+
+            return {
+              data,
+              timeTaken: process.uptime() - now,
+              contextSlot: store.contextSlot,
+            };
+          });
+        }
+      );
+
+      instance.get(
+        "/quote/ws",
+        {
+          websocket: true,
+          schema: {
+            description:
+              'Subscribe to quotes over websocket, send `{"type":"subscribe","inputMint","outputMint","amount","slippageBps","swapMode","onlyDirectRoutes"}` and receive `{"type":"quote","id","data","contextSlot"}` whenever an AMM of the pair is updated, the routes are checked and carry a quoteId like /quote, `{"type":"error","id","code","message","context"}` when no route passes, send `{"type":"unsubscribe","id"}` to stop',
+            tags: [],
+            summary: "Stream routes",
+          },
+        },
+        (connection) => {
+          quoteSubscriptions.handleConnection(connection.socket);
+        }
+      );
+
       type SwapBody = {
         userPublicKey: string;
         feeAccount?: string;
         wrapUnwrapSOL?: boolean;
         asLegacyTransaction?: boolean;
-        computeUnitPriceMicroLamports?: number;
-        route: Omit<
-          RouteInfo,
-          | "getDepositAndFee"
-          | "marketInfos"
-          | "inAmount"
-          | "outAmount"
-          | "amount"
-          | "otherAmountThreshold"
-        > & {
-          marketInfos: Array<
-            {
-              id: string;
-              label: string;
-              inputMint: string;
-              outputMint: string;
-              inAmount: number;
-              outAmount: number;
-            } & Omit<
-              MarketInfo,
-              | "amm"
-              | "outputMint"
-              | "inputMint"
-              | "inAmount"
-              | "outAmount"
-              | "otherAmountThreshold"
-            >
-          >;
-        } & {
-          otherAmountThreshold: number;
-          inAmount: number;
-          outAmount: number;
-          amount: number;
-        };
-        destinationWallet: string;
-      };
+        computeUnitPriceMicroLamports?: number | "auto";
+        maxPrioritizationFeeLamports?: number;
+        quoteId: string;
+        destinationWallet?: string;
+        payments?: Payment[];
+        onRouteDrift?: "reject" | "requote";
+        simulate?: boolean;
+      } & GuardrailOverrides;
 
       const SwapBody: OpenAPIV3.SchemaObject = {
         type: "object",
-        required: ["route", "userPublicKey"],
+        required: ["quoteId", "userPublicKey"],
         properties: {
-          route: {
-            $ref: "Route#",
+          quoteId: {
+            type: "string",
+            description: "quoteId of a route returned by /quote",
           },
           userPublicKey: {
             type: "string",
@@ -645,7 +1753,7 @@ async function start() {
           feeAccount: {
             type: "string",
             description:
-              "Fee token account for the output token (only pass in if you set a feeBps)",
+              "Fee token account for the output token (only pass in if you set a feeBps), it is derived from the fee wallet when the quote has an integrator",
           },
           asLegacyTransaction: {
             type: "boolean",
@@ -654,19 +1762,448 @@ async function start() {
               "Request a legacy transaction rather than the default versioned transaction, needs to be paired with a quote using asLegacyTransaction otherwise the transaction might be too large",
           },
           computeUnitPriceMicroLamports: {
-            type: "number",
+            anyOf: [{ type: "number" }, { type: "string", enum: ["auto"] }],
+            nullable: true,
+            description:
+              "compute unit price to prioritize the transaction, the additional fee will be compute unit consumed * computeUnitPriceMicroLamports. With auto, the compute unit limit is estimated from a simulation and the price from the recent prioritization fees of the route's AMMs",
+          },
+          maxPrioritizationFeeLamports: {
+            type: "integer",
             nullable: true,
             description:
-              "compute unit price to prioritize the transaction, the additional fee will be compute unit consumed * computeUnitPriceMicroLamports",
+              "Only used with computeUnitPriceMicroLamports auto, the max lamports to spend on the prioritization fee, default to 1000000",
           },
           destinationWallet: {
             type: "string",
+            deprecated: true,
+            description:
+              "Public key of the wallet that will receive the output of the swap, same as a single payment with bps 10000",
+          },
+          payments: {
+            type: "array",
+            maxItems: 10,
+            description:
+              "Transfers of the output token after the swap, the recipients token accounts are created if missing. The bps shares and the sum of the amounts apply to the guaranteed output: the amount in ExactOut, the otherAmountThreshold in ExactIn",
+            items: {
+              type: "object",
+              required: ["recipient"],
+              anyOf: [{ required: ["amount"] }, { required: ["bps"] }],
+              properties: {
+                recipient: {
+                  type: "string",
+                  description: "Public key of the wallet receiving the payment",
+                },
+                amount: {
+                  type: "string",
+                  pattern: "^[0-9]+$",
+                  description: "Raw amount of the output token",
+                },
+                bps: {
+                  type: "integer",
+                  minimum: 1,
+                  maximum: 10000,
+                  description: "Share of the guaranteed output",
+                },
+              },
+            },
+          },
+          onRouteDrift: {
+            type: "string",
+            enum: ["reject", "requote"],
+            default: "reject",
             description:
-              "Public key of the wallet that will receive the output of the swap, this assumes the associated token account exists, currently adds a token transfer",
+              "The route is quoted again against the current pools, when the fresh amount misses otherAmountThreshold by more than ROUTE_DRIFT_TOLERANCE_BPS: reject answers 409 ROUTE_DRIFTED, requote builds the transaction with a fresh route",
           },
+          simulate: {
+            type: "boolean",
+            nullable: true,
+            description:
+              "Simulate the transaction and return the compute units consumed, the logs, the error if any and the user balance changes",
+          },
+          ...guardrailOverridesProperties,
         },
       };
 
+      const requotedRouteDescription =
+        "Only returned when the route drifted and onRouteDrift is requote, the route the transaction was built with";
+
+      function toSwapError(e: unknown, route: RouteInfo) {
+        if (e instanceof ApiError) return e;
+
+        console.error(e);
+        return new ApiError("SWAP_FAILED", (e as Error).message, {
+          markets: route.marketInfos.map(
+            ({ amm }) => `${amm.label}(${amm.id})`
+          ),
+        });
+      }
+
+      /**
+       * The quoted route, quoted again when it drifted and onRouteDrift is requote.
+       */
+      async function getSwapRoute({
+        quoteId,
+        onRouteDrift,
+        ...body
+      }: SwapBody) {
+        const quote = await quoteCache.getQuote(quoteId);
+        if (!quote) {
+          throw new ApiError(
+            "QUOTE_NOT_FOUND",
+            "Quote not found or expired, get a new quote",
+            { quoteId }
+          );
+        }
+
+        const { route } = quote;
+        // the overrides of the swap replace the ones of the quote
+        const params: QuoteParams = {
+          ...quote.params,
+          maxPriceImpactBps:
+            body.maxPriceImpactBps ?? quote.params.maxPriceImpactBps,
+          maxPriceDeviationBps:
+            body.maxPriceDeviationBps ?? quote.params.maxPriceDeviationBps,
+          allowNotEnoughLiquidity:
+            body.allowNotEnoughLiquidity ??
+            quote.params.allowNotEnoughLiquidity,
+        };
+        const drift = getRouteDrift(route);
+        if (!drift.drifted) {
+          const violations = await getRouteViolations(
+            route,
+            params,
+            params.onlyDirectRoutes
+          );
+          if (violations.length) {
+            throw new ApiError(
+              "GUARDRAIL_REJECTED",
+              "The route breaks a safety limit",
+              { violations }
+            );
+          }
+          return { route, params };
+        }
+        if (onRouteDrift !== "requote") {
+          if ("failedMarket" in drift) {
+            const { ammId, label } = drift.failedMarket;
+            throw new ApiError(
+              "ROUTE_DRIFTED",
+              `The pools moved since the quote and ${label}(${ammId}) cannot quote its market anymore, get a new quote`,
+              drift.failedMarket
+            );
+          }
+          const { driftBps, freshInAmount, freshOutAmount } = drift;
+          throw new ApiError(
+            "ROUTE_DRIFTED",
+            "The pools moved since the quote and the route misses its otherAmountThreshold, get a new quote",
+            {
+              driftBps,
+              inAmount: route.inAmount.toString(),
+              outAmount: route.outAmount.toString(),
+              otherAmountThreshold: route.otherAmountThreshold.toString(),
+              freshInAmount: freshInAmount.toString(),
+              freshOutAmount: freshOutAmount.toString(),
+            }
+          );
+        }
+
+        const { routesInfos, fees, routesStaleness, routesAutoSlippage } =
+          await computeQuote(params);
+        const [requotedQuoteId] = await quoteCache.storeRoutes(
+          routesInfos.slice(0, 1),
+          params
+        );
+        return {
+          route: routesInfos[0],
+          params,
+          requotedRoute: {
+            ...serializeRouteInfo(
+              routesInfos[0],
+              fees[0],
+              routesStaleness[0],
+              routesAutoSlippage[0]
+            ),
+            quoteId: requotedQuoteId,
+          },
+        };
+      }
+
+      /**
+       * The fee account for the platform fee of the route, the integrator one when the quote has an integrator.
+       * A fee account that is not a token account of the fee mint fails the swap on-chain, so it is checked.
+       */
+      async function getRouteFeeAccount(
+        route: RouteInfo,
+        params: QuoteParams,
+        feeAccount: string | undefined
+      ): Promise<{ feeAccount?: PublicKey; warnings: string[] }> {
+        const { platformFee } = route.marketInfos[route.marketInfos.length - 1];
+        if (JSBI.equal(platformFee.amount, JSBI.BigInt(0))) {
+          return { warnings: [] };
+        }
+
+        const feeMint = new PublicKey(platformFee.mint);
+        const integrator = params.integrator
+          ? integrators.getByName(params.integrator)
+          : undefined;
+        const account = integrator
+          ? await getFeeAccount(connection, integrator.feeWallet, feeMint)
+          : feeAccount
+          ? new PublicKey(feeAccount)
+          : undefined;
+        if (!account) {
+          throw new ApiError(
+            "INVALID_FEE",
+            "The route charges a fee, pass the feeAccount receiving it",
+            { feeBps: params.feeBps, feeMint: feeMint.toBase58() }
+          );
+        }
+
+        const status = await getFeeAccountStatus(connection, account, feeMint);
+        if (status === "valid") {
+          return { feeAccount: account, warnings: [] };
+        }
+
+        const context = {
+          feeAccount: account.toBase58(),
+          feeMint: feeMint.toBase58(),
+          status,
+        };
+        if (
+          status === "missing" &&
+          integrator &&
+          integrators.config.onMissingFeeAccount === "warn"
+        ) {
+          return {
+            warnings: [
+              `The fee account ${account.toBase58()} does not exist, the swap is built without the fee`,
+            ],
+          };
+        }
+        throw new ApiError(
+          "INVALID_FEE",
+          status === "missing"
+            ? `The fee account ${account.toBase58()} does not exist`
+            : `The fee account ${account.toBase58()} is not a token account of ${feeMint.toBase58()}`,
+          context
+        );
+      }
+
+      async function buildSwapTransaction(
+        route: RouteInfo,
+        params: QuoteParams,
+        {
+          userPublicKey,
+          feeAccount,
+          wrapUnwrapSOL,
+          asLegacyTransaction,
+          computeUnitPriceMicroLamports,
+          maxPrioritizationFeeLamports,
+          destinationWallet,
+          payments = destinationWallet
+            ? [{ recipient: destinationWallet, bps: 10_000 }]
+            : [],
+        }: SwapBody,
+        // split the transaction in setup, swap and cleanup when it is too large
+        splitOverflow = false
+      ) {
+        const user = new PublicKey(userPublicKey);
+
+        // what the user receives at worst, the payments cannot spend more
+        const guaranteedAmount =
+          route.swapMode === SwapMode.ExactOut
+            ? route.amount
+            : route.otherAmountThreshold;
+        const paymentAmounts = getPaymentAmounts(payments, guaranteedAmount);
+        const totalPaymentAmount = paymentAmounts.reduce(
+          (total, amount) => JSBI.add(total, amount),
+          JSBI.BigInt(0)
+        );
+        if (JSBI.greaterThan(totalPaymentAmount, guaranteedAmount)) {
+          throw new ApiError(
+            "INVALID_PAYMENTS",
+            `The payments total ${totalPaymentAmount} exceeds the guaranteed output amount ${guaranteedAmount}`,
+            {
+              totalPaymentAmount: totalPaymentAmount.toString(),
+              guaranteedAmount: guaranteedAmount.toString(),
+            }
+          );
+        }
+
+        // an extension can be initialized on a mint after the route was quoted
+        const mintInfos = await getMintInfos(connection, getRouteMints(route));
+        const unsupportedMint = getUnsupportedMint(route, mintInfos);
+        if (unsupportedMint) {
+          throw new ApiError(
+            "UNSUPPORTED_TOKEN",
+            `The mint ${unsupportedMint.mint} has token-2022 extensions that cannot be swapped`,
+            unsupportedMint
+          );
+        }
+
+        const { feeAccount: routeFeeAccount, warnings } =
+          await getRouteFeeAccount(route, params, feeAccount);
+
+        const { swapTransaction, addressLookupTableAccounts } =
+          await jupiter.exchange({
+            userPublicKey: user,
+            feeAccount: routeFeeAccount,
+            wrapUnwrapSOL,
+            computeUnitPriceMicroLamports:
+              computeUnitPriceMicroLamports === "auto"
+                ? undefined
+                : computeUnitPriceMicroLamports,
+            blockhashWithExpiryBlockHeight,
+            asLegacyTransaction,
+            routeInfo: route,
+          });
+
+        const token2022Accounts = await useToken2022Accounts({
+          transaction: swapTransaction,
+          addressLookupTableAccounts,
+          userPublicKey: user,
+          mintInfos,
+        });
+
+        if (payments.length > 0) {
+          const { outputMint } =
+            route.marketInfos[route.marketInfos.length - 1];
+          const [tokenProgramId, decimalsMap] = await Promise.all([
+            getMintTokenProgram(connection, outputMint),
+            getMintDecimals(connection, [outputMint]),
+          ]);
+          const decimals = decimalsMap.get(outputMint.toBase58());
+          if (decimals === undefined) {
+            throw new ApiError(
+              "SWAP_FAILED",
+              "The decimals of the output mint could not be fetched",
+              {
+                markets: route.marketInfos.map(
+                  ({ amm }) => `${amm.label}(${amm.id})`
+                ),
+              }
+            );
+          }
+
+          const { setupInstructions, transferInstructions } =
+            await createPaymentInstructions({
+              userPublicKey: user,
+              outputMint,
+              decimals,
+              tokenProgramId,
+              payments: payments.map(({ recipient }, idx) => ({
+                recipient: new PublicKey(recipient),
+                amount: paymentAmounts[idx],
+              })),
+            });
+
+          // transfer right after the swap, before wrapped SOL gets closed
+          updateInstructions(
+            swapTransaction,
+            addressLookupTableAccounts,
+            (instructions) => {
+              const swapIndex = getSwapInstructionIndex(instructions);
+              return [
+                ...instructions.slice(0, swapIndex),
+                ...setupInstructions,
+                instructions[swapIndex],
+                ...transferInstructions,
+                ...instructions.slice(swapIndex + 1),
+              ];
+            }
+          );
+        }
+
+        // the amms of a route may not move token-2022 accounts, the simulation shows whether this swap does
+        if (token2022Accounts.size > 0) {
+          if (fitsInTransaction(swapTransaction)) {
+            const instructions = getInstructions(
+              swapTransaction,
+              addressLookupTableAccounts
+            );
+            const { error, logs } = await simulateSwapTransaction({
+              connection,
+              transaction: swapTransaction,
+              userPublicKey: user,
+              mints: getRouteMints(route),
+            });
+            const instructionIndex = error?.instructionIndex;
+            if (
+              instructionIndex !== undefined &&
+              touchesAccounts(instructions[instructionIndex], token2022Accounts)
+            ) {
+              throw new ApiError(
+                "UNSUPPORTED_TOKEN",
+                `The swap fails in simulation at instruction ${instructionIndex}, which moves a token-2022 account`,
+                { instructionIndex, error: error?.name, logs }
+              );
+            }
+          } else {
+            warnings.push(
+              "The swap moves token-2022 accounts and is too large to be checked in simulation"
+            );
+          }
+        }
+
+        let computeBudget: ComputeBudget | undefined;
+        if (computeUnitPriceMicroLamports === "auto") {
+          const ammAccounts = new Set<string>();
+          route.marketInfos.forEach(({ amm }) => {
+            getAmmIds(amm).forEach((ammId) => {
+              const amm = ammIdToAmmMap.get(ammId);
+              if (!amm) return;
+              ammAccounts.add(amm.id);
+              amm
+                .getAccountsForUpdate()
+                .forEach((account) => ammAccounts.add(account.toBase58()));
+            });
+          });
+
+          // estimated before any split, the swap part alone fails without the accounts of its setup
+          computeBudget = await setAutoComputeBudget({
+            connection,
+            transaction: swapTransaction,
+            addressLookupTableAccounts,
+            ammAccounts,
+            maxPrioritizationFeeLamports,
+          });
+        }
+
+        // sized with its compute budget instructions, they stay with the swap part
+        let transactions: SwapTransactionPart[] | undefined;
+        if (splitOverflow && !fitsInTransaction(swapTransaction)) {
+          transactions = splitSwapTransaction(
+            swapTransaction,
+            addressLookupTableAccounts,
+            { payer: user, ...blockhashWithExpiryBlockHeight }
+          );
+          const oversizedPart = transactions.find(
+            ({ transaction }) => !fitsInTransaction(transaction)
+          );
+          if (oversizedPart) {
+            throw new ApiError(
+              "TRANSACTION_TOO_LARGE",
+              `The ${oversizedPart.role} transaction does not fit in a transaction even split from the rest of the swap`,
+              {
+                role: oversizedPart.role,
+                markets: route.marketInfos.map(
+                  ({ amm }) => `${amm.label}(${amm.id})`
+                ),
+              }
+            );
+          }
+        }
+
+        return {
+          user,
+          swapTransaction,
+          transactions,
+          addressLookupTableAccounts,
+          computeBudget,
+          warnings,
+        };
+      }
+
       // input is route
       instance.post<{
         Body: SwapBody;
@@ -685,156 +2222,256 @@ async function start() {
                 properties: {
                   swapTransaction: {
                     type: "string",
-                    description: "Base64 encoded transaction",
+                    description:
+                      "Base64 encoded transaction, not returned when the swap is split in transactions",
+                  },
+                  transactions: {
+                    type: "array",
+                    description:
+                      "Only returned when the swap does not fit in one transaction, send them in order, each after the previous one is confirmed",
+                    items: {
+                      type: "object",
+                      properties: {
+                        role: {
+                          type: "string",
+                          enum: ["setup", "swap", "cleanup"],
+                          description:
+                            "setup creates the token accounts and wraps SOL, cleanup unwraps SOL and pays the payments",
+                        },
+                        transaction: {
+                          type: "string",
+                          description: "Base64 encoded transaction",
+                        },
+                        signers: {
+                          type: "array",
+                          description: "Public keys that need to sign it",
+                          items: { type: "string" },
+                        },
+                      },
+                    },
+                  },
+                  computeUnitLimit: {
+                    type: "integer",
+                    description:
+                      "Only returned when computeUnitPriceMicroLamports is auto",
+                  },
+                  computeUnitPriceMicroLamports: {
+                    type: "integer",
+                    description:
+                      "Only returned when computeUnitPriceMicroLamports is auto",
+                  },
+                  prioritizationFeeLamports: {
+                    type: "integer",
+                    description:
+                      "Only returned when computeUnitPriceMicroLamports is auto",
+                  },
+                  requotedRoute: {
+                    ...Route,
+                    description: requotedRouteDescription,
+                  },
+                  warnings: {
+                    type: "array",
+                    description:
+                      "Fee misconfigurations the swap was built around, and a skipped simulation",
+                    items: { type: "string" },
+                  },
+                  simulation: {
+                    type: "object",
+                    nullable: true,
+                    description: "Only returned when simulate is true",
+                    properties: {
+                      unitsConsumed: { type: "integer", nullable: true },
+                      logs: { type: "array", items: { type: "string" } },
+                      error: {
+                        type: "object",
+                        nullable: true,
+                        properties: {
+                          raw: {},
+                          instructionIndex: { type: "integer" },
+                          code: { type: "integer" },
+                          name: { type: "string" },
+                          message: { type: "string" },
+                        },
+                      },
+                      balanceChanges: {
+                        type: "array",
+                        description:
+                          "Balance changes of the user for each mint of the route, SOL is the wallet lamports",
+                        items: {
+                          type: "object",
+                          properties: {
+                            mint: { type: "string" },
+                            account: { type: "string" },
+                            preAmount: { type: "string" },
+                            postAmount: { type: "string" },
+                            change: { type: "string" },
+                          },
+                        },
+                      },
+                    },
                   },
                 },
               },
+              ...errorResponses,
             },
           },
         },
         async (req) => {
-          let {
-            route,
-            userPublicKey,
-            feeAccount,
-            wrapUnwrapSOL,
-            asLegacyTransaction,
-            computeUnitPriceMicroLamports,
-            destinationWallet,
-          } = req.body;
+          const { simulate } = req.body;
+          const { route, params, requotedRoute } = await getSwapRoute(req.body);
           try {
-            const user = new PublicKey(userPublicKey);
-
-            const swapMode = route.swapMode || SwapMode.ExactIn;
-
-            const { swapTransaction, addressLookupTableAccounts } =
-              await jupiter.exchange({
-                userPublicKey: user,
-                feeAccount: feeAccount ? new PublicKey(feeAccount) : undefined,
-                wrapUnwrapSOL,
-                computeUnitPriceMicroLamports,
-                blockhashWithExpiryBlockHeight,
-                asLegacyTransaction,
-                routeInfo: {
-                  ...route,
-                  swapMode,
-                  inAmount: JSBI.BigInt(route.inAmount),
-                  outAmount: JSBI.BigInt(route.outAmount),
-                  amount: JSBI.BigInt(route.amount),
-                  otherAmountThreshold: JSBI.BigInt(
-                    route.otherAmountThreshold ?? 0
-                  ),
-                  getDepositAndFee: mockGetDepositFee,
-                  marketInfos: route.marketInfos.map(
-                    (marketInfo, _, marketInfos) => ({
-                      ...marketInfo,
-                      inputMint: new PublicKey(marketInfo.inputMint),
-                      outputMint: new PublicKey(marketInfo.outputMint),
-                      inAmount: JSBI.BigInt(marketInfo.inAmount),
-                      outAmount: JSBI.BigInt(marketInfo.outAmount),
-                      amm: (() => {
-                        let amm: Amm | undefined = ammIdToAmmMap.get(
-                          marketInfo.id
-                        );
-
-                        // might be split trade amm if there's only one amm
-                        if (!amm && marketInfos.length === 1) {
-                          const ammIds =
-                            SplitTradeAmm.getAmmIdsFromSplitTradeAmmId(
-                              marketInfo.id
-                            );
-
-                          if (ammIds.length) {
-                            const amms = ammIds.map((id) => {
-                              const amm = ammIdToAmmMap.get(id);
-                              if (!amm) {
-                                throw new Error("Amm not found");
-                              }
-                              return amm;
-                            });
-
-                            const integerMatches = Array.from(
-                              route.marketInfos[0].label.matchAll(/\((\d+)%\)/g)
-                            ).map((item) => item[1]);
-
-                            const splitTradeAmm = SplitTradeAmm.create(
-                              amms[0],
-                              amms[1]
-                            );
-
-                            if (!splitTradeAmm) {
-                              throw new Error(
-                                "Invalid Split Trade combination"
-                              );
-                            }
-
-                            if (integerMatches) {
-                              const [portion1, portion2] =
-                                integerMatches.map(Number);
-
-                              splitTradeAmm.setPortions(portion1, portion2);
-                            } else {
-                              throw new Error("Invalid Split Trade label");
-                            }
-                            amm = splitTradeAmm;
-                          }
-                        }
-
-                        if (!amm) {
-                          throw new Error("Amm not found");
-                        }
-
-                        return amm;
-                      })(),
-                    })
-                  ),
-                },
+            const {
+              user,
+              swapTransaction,
+              transactions,
+              computeBudget,
+              warnings,
+            } = await buildSwapTransaction(route, params, req.body, true);
+
+            let simulation;
+            if (simulate && transactions) {
+              // the swap alone fails without its setup
+              warnings.push(
+                "The swap is split in transactions, it was not simulated"
+              );
+            } else if (simulate) {
+              const mints = new Map<string, PublicKey>();
+              route.marketInfos.forEach(({ inputMint, outputMint }) => {
+                mints.set(inputMint.toBase58(), inputMint);
+                mints.set(outputMint.toBase58(), outputMint);
               });
 
-            if (destinationWallet) {
-              if (swapMode !== SwapMode.ExactOut)
-                throw new Error(
-                  "Destination wallet is only available when SwapMode.ExactOut"
-                );
-
-              const paymentInstruction = await createPaymentInstruction({
+              simulation = await simulateSwapTransaction({
+                connection,
+                transaction: swapTransaction,
                 userPublicKey: user,
-                destinationWallet: new PublicKey(destinationWallet),
-                outputMint: new PublicKey(
-                  route.marketInfos[route.marketInfos.length - 1].outputMint
-                ),
-                paymentAmount: new BN(route.amount),
+                mints: Array.from(mints.values()),
               });
-              if (swapTransaction instanceof Transaction) {
-                swapTransaction.instructions.push(paymentInstruction);
-              } else {
-                const message = TransactionMessage.decompile(
-                  swapTransaction.message,
-                  {
-                    addressLookupTableAccounts,
-                  }
-                );
-                message.instructions.push(paymentInstruction);
-                swapTransaction.message = message.compileToV0Message(
-                  addressLookupTableAccounts
-                );
-              }
             }
 
-            return {
-              swapTransaction: Buffer.from(
-                swapTransaction.serialize({
+            const serialize = (transaction: typeof swapTransaction) =>
+              Buffer.from(
+                transaction.serialize({
                   requireAllSignatures: false,
                   verifySignatures: false,
                 })
-              ).toString("base64"),
+              ).toString("base64");
+
+            return {
+              ...computeBudget,
+              requotedRoute,
+              warnings,
+              simulation,
+              ...(transactions
+                ? {
+                    transactions: transactions.map(
+                      ({ role, transaction, signers }) => ({
+                        role,
+                        transaction: serialize(transaction),
+                        signers: signers.map((signer) => signer.toBase58()),
+                      })
+                    ),
+                  }
+                : { swapTransaction: serialize(swapTransaction) }),
+            };
+          } catch (e: any) {
+            throw toSwapError(e, route);
+          }
+        }
+      );
+
+      instance.post<{
+        Body: SwapBody;
+      }>(
+        "/swap-instructions",
+        {
+          schema: {
+            description:
+              "Get the instructions of the swap for a route, to compose them with your own instructions",
+            tags: [],
+            summary:
+              "Return compute budget, setup, swap and cleanup instructions",
+            body: SwapBody,
+            response: {
+              200: {
+                description: "Default response",
+                type: "object",
+                properties: {
+                  computeBudgetInstructions: {
+                    type: "array",
+                    items: { $ref: "Instruction#" },
+                  },
+                  setupInstructions: {
+                    type: "array",
+                    description:
+                      "Token account creation and SOL wrapping before the swap",
+                    items: { $ref: "Instruction#" },
+                  },
+                  swapInstruction: { $ref: "Instruction#" },
+                  cleanupInstructions: {
+                    type: "array",
+                    description: "SOL unwrapping and transfers after the swap",
+                    items: { $ref: "Instruction#" },
+                  },
+                  addressLookupTableAddresses: {
+                    type: "array",
+                    description:
+                      "Address lookup tables to compile the instructions into a versioned transaction",
+                    items: { type: "string" },
+                  },
+                  requotedRoute: {
+                    ...Route,
+                    description: requotedRouteDescription,
+                  },
+                  warnings: {
+                    type: "array",
+                    description:
+                      "Fee misconfigurations the swap was built around",
+                    items: { type: "string" },
+                  },
+                },
+              },
+              ...errorResponses,
+            },
+          },
+        },
+        async (req) => {
+          const { route, params, requotedRoute } = await getSwapRoute(req.body);
+          try {
+            const { swapTransaction, addressLookupTableAccounts, warnings } =
+              await buildSwapTransaction(route, params, req.body);
+
+            const instructions = getInstructions(
+              swapTransaction,
+              addressLookupTableAccounts
+            );
+            const swapIndex = getSwapInstructionIndex(instructions);
+
+            return {
+              computeBudgetInstructions: instructions
+                .filter(isComputeBudgetInstruction)
+                .map(serializeInstruction),
+              setupInstructions: instructions
+                .slice(0, swapIndex)
+                .filter(
+                  (instruction) => !isComputeBudgetInstruction(instruction)
+                )
+                .map(serializeInstruction),
+              swapInstruction: serializeInstruction(instructions[swapIndex]),
+              cleanupInstructions: instructions
+                .slice(swapIndex + 1)
+                .filter(
+                  (instruction) => !isComputeBudgetInstruction(instruction)
+                )
+                .map(serializeInstruction),
+              addressLookupTableAddresses: addressLookupTableAccounts.map(
+                ({ key }) => key.toBase58()
+              ),
+              requotedRoute,
+              warnings,
             };
           } catch (e: any) {
-            const error = e as Error;
-            error.name += route.marketInfos
-              .map(({ id, label }) => `${label}(${id})`)
-              .join(", ");
-            throw error;
+            throw toSwapError(e, route);
           }
         }
       );
@@ -860,6 +2497,213 @@ async function start() {
         required: ["ids"],
       };
 
+      interface IPriceQuerystring {
+        ids: string;
+        vsToken?: string;
+        vsAmount?: number;
+      }
+
+      instance.get<{ Querystring: IPriceQuerystring }>(
+        "/price",
+        {
+          schema: {
+            description:
+              "Get the price of the given tokens against a vs token, computed from the best route",
+            tags: [],
+            summary: "Return price hash",
+            querystring: GetPriceQueryString,
+            response: {
+              200: {
+                description: "Default response",
+                type: "object",
+                properties: {
+                  data: { $ref: "PriceHash#" },
+                  timeTaken: { type: "number" },
+                  contextSlot: { type: "integer" },
+                },
+              },
+              ...errorResponses,
+            },
+          },
+        },
+        async (req) => {
+          const { ids, vsToken = "USDC", vsAmount = 1 } = req.query;
+          const now = process.uptime();
+
+          const idToToken = new Map<string, ResolvedToken>();
+          for (const id of [vsToken, ...ids.split(",")]) {
+            const trimmedId = id.trim();
+            if (!trimmedId) continue;
+            try {
+              idToToken.set(trimmedId, resolveToken(trimmedId));
+            } catch (e) {
+              throw new ApiError(
+                "INVALID_REQUEST",
+                `Invalid token ${trimmedId}`,
+                { id: trimmedId }
+              );
+            }
+          }
+          const vs = idToToken.get(vsToken.trim());
+          if (!vs) {
+            throw new ApiError("INVALID_REQUEST", "vsToken is required");
+          }
+
+          if (vsAmount <= 0) {
+            throw new ApiError(
+              "INVALID_REQUEST",
+              "vsAmount must be greater than 0",
+              { vsAmount }
+            );
+          }
+
+          const decimalsMap = await getMintDecimals(
+            connection,
+            Array.from(idToToken.values()).map(({ mint }) => mint)
+          );
+
+          const vsDecimals = decimalsMap.get(vs.mint.toBase58());
+          if (vsDecimals === undefined) {
+            throw new ApiError(
+              "INVALID_REQUEST",
+              `vsToken ${vsToken} is not a mint`,
+              { vsToken }
+            );
+          }
+
+          const data: Record<
+            string,
+            {
+              id: string;
+              mintSymbol?: string;
+              vsToken: string;
+              vsTokenSymbol?: string;
+              price: number;
+            }
+          > = {};
+
+          await Promise.all(
+            ids.split(",").map(async (id) => {
+              const trimmedId = id.trim();
+              const token = idToToken.get(trimmedId);
+              const decimals = token && decimalsMap.get(token.mint.toBase58());
+              if (!token || decimals === undefined) return;
+
+              let price: Decimal;
+              if (token.mint.equals(vs.mint)) {
+                price = new Decimal(1);
+              } else {
+                const amount = new Decimal(vsAmount)
+                  .mul(new Decimal(10).pow(decimals))
+                  .floor();
+                if (amount.isZero()) return;
+
+                let bestRoute: RouteInfo | undefined;
+                try {
+                  const { routesInfos } = await jupiter.computeRoutes({
+                    inputMint: token.mint,
+                    outputMint: vs.mint,
+                    amount: JSBI.BigInt(amount.toFixed()),
+                    slippageBps: 0,
+                    swapMode: SwapMode.ExactIn,
+                    filterTopNResult: 1,
+                  });
+                  bestRoute = routesInfos[0];
+                } catch (e) {
+                  // an id without a route is left out, the others are still priced
+                  console.error(`Failed to price ${trimmedId}, reason ${e}`);
+                }
+                if (!bestRoute) return;
+
+                price = new Decimal(bestRoute.outAmount.toString())
+                  .div(new Decimal(10).pow(vsDecimals))
+                  .div(vsAmount);
+              }
+
+              data[trimmedId] = {
+                id: token.mint.toBase58(),
+                mintSymbol: token.symbol,
+                vsToken: vs.mint.toBase58(),
+                vsTokenSymbol: vs.symbol,
+                price: price.toNumber(),
+              };
+            })
+          );
+
+          return {
+            data,
+            timeTaken: process.uptime() - now,
+            contextSlot: store.contextSlot,
+          };
+        }
+      );
+
+      instance.get(
+        "/dexes",
+        {
+          schema: {
+            description:
+              "Returns the dexes that can be routed through, with their number of loaded AMMs",
+            response: {
+              200: {
+                description: "Default response",
+                type: "object",
+                properties: {
+                  data: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        label: { type: "string" },
+                        ammCount: { type: "integer" },
+                      },
+                    },
+                  },
+                  excludedDexes: {
+                    type: "array",
+                    items: { type: "string" },
+                    description:
+                      "Dexes excluded by the api, they are never routed through",
+                  },
+                },
+              },
+            },
+          },
+        },
+        async (_req, res) => {
+          res.header("cache-control", "public, max-age=60");
+
+          return {
+            data: dexes,
+            excludedDexes: Object.entries(ammsToExclude || {})
+              .filter(([, excluded]) => excluded)
+              .map(([label]) => label),
+          };
+        }
+      );
+
+      instance.get(
+        "/tokens",
+        {
+          schema: {
+            description:
+              "Returns the tokens from the token registry that can be routed",
+            response: {
+              200: {
+                description: "Default response",
+                type: "array",
+                items: { $ref: "Token#" },
+              },
+            },
+          },
+        },
+        async (_req, res) => {
+          res.header("cache-control", "public, max-age=60");
+
+          return getTokens().filter(({ address }) => routeMap.has(address));
+        }
+      );
+
       instance.get<{
         Querystring: { onlyDirectRoutes?: boolean };
       }>(
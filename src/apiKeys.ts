@@ -0,0 +1,154 @@
+import { readFileSync } from "fs";
+import Redis from "ioredis";
+
+// hash of api key -> JSON ApiKey, when the keys are kept in redis
+export const API_KEYS_KEY = "apiKeys";
+const USAGE_KEY_PREFIX = "apiKeyUsage:";
+// keep the daily usage around for a month
+const USAGE_TTL_SECONDS = 31 * 24 * 60 * 60;
+// how long a key read from redis is trusted before reading it again
+const REDIS_KEY_CACHE_MS = 10_000;
+const USAGE_TOTAL_FIELD = "total";
+
+export type ApiKey = {
+  key: string;
+  name: string;
+  rateLimitPerMinute?: number;
+  dailyQuota?: number;
+  // can read the usage of every key
+  admin?: boolean;
+};
+
+declare module "fastify" {
+  interface FastifyRequest {
+    apiKey?: ApiKey;
+  }
+}
+
+export type ApiKeysSource = "file" | "redis";
+
+export function getApiKeysConfig() {
+  const source = process.env.API_KEYS_SOURCE;
+  return {
+    // no source, the api is open
+    source:
+      source === "file" || source === "redis"
+        ? (source as ApiKeysSource)
+        : undefined,
+    path: process.env.API_KEYS_PATH,
+    defaultRateLimitPerMinute: Number(
+      process.env.API_KEY_RATE_LIMIT_PER_MINUTE || 600
+    ),
+    // requests without a known key are limited per ip, so keys cannot be guessed at will
+    unauthenticatedRateLimitPerMinute: Number(
+      process.env.UNAUTHENTICATED_RATE_LIMIT_PER_MINUTE || 60
+    ),
+  };
+}
+
+// usage is accounted per UTC day
+export function getUsageDate(date = new Date()) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Look up api keys from a JSON file (an array of ApiKey) or from redis, and count their daily usage in redis.
+ */
+export function createApiKeys({
+  redis,
+  config = getApiKeysConfig(),
+}: {
+  redis: Redis;
+  config?: ReturnType<typeof getApiKeysConfig>;
+}) {
+  const fileKeys = new Map<string, ApiKey>();
+  if (config.source === "file") {
+    if (!config.path) {
+      throw new Error("API_KEYS_PATH is not set");
+    }
+    const apiKeys: ApiKey[] = JSON.parse(readFileSync(config.path, "utf-8"));
+    apiKeys.forEach((apiKey) => fileKeys.set(apiKey.key, apiKey));
+  }
+
+  const redisKeyCache = new Map<
+    string,
+    { apiKey: ApiKey | undefined; time: number }
+  >();
+
+  async function getApiKey(key: string): Promise<ApiKey | undefined> {
+    if (config.source !== "redis") {
+      return fileKeys.get(key);
+    }
+
+    const cached = redisKeyCache.get(key);
+    if (cached && Date.now() - cached.time < REDIS_KEY_CACHE_MS) {
+      return cached.apiKey;
+    }
+    const value = await redis.hget(API_KEYS_KEY, key);
+    const apiKey: ApiKey | undefined = value
+      ? { ...JSON.parse(value), key }
+      : undefined;
+    redisKeyCache.set(key, { apiKey, time: Date.now() });
+    return apiKey;
+  }
+
+  async function getApiKeys(): Promise<ApiKey[]> {
+    if (config.source !== "redis") {
+      return Array.from(fileKeys.values());
+    }
+    const values = await redis.hgetall(API_KEYS_KEY);
+    return Object.entries(values).map(([key, value]) => ({
+      ...JSON.parse(value),
+      key,
+    }));
+  }
+
+  return {
+    enabled: config.source !== undefined,
+    defaultRateLimitPerMinute: config.defaultRateLimitPerMinute,
+    unauthenticatedRateLimitPerMinute: config.unauthenticatedRateLimitPerMinute,
+    getApiKey,
+    /**
+     * Count a request of the key for the day, returns the count of the day so far.
+     */
+    async recordUsage({ key }: ApiKey, route: string) {
+      const usageKey = `${USAGE_KEY_PREFIX}${getUsageDate()}:${key}`;
+      const [[, total]] = (await redis
+        .multi()
+        .hincrby(usageKey, USAGE_TOTAL_FIELD, 1)
+        .hincrby(usageKey, route, 1)
+        .expire(usageKey, USAGE_TTL_SECONDS)
+        .exec()) as [[Error | null, number]];
+      return total;
+    },
+    /**
+     * The usage of every key on the given day, per route and in total.
+     */
+    async getUsage(date: string) {
+      const apiKeys = await getApiKeys();
+      return Promise.all(
+        apiKeys.map(async ({ key, name, dailyQuota, rateLimitPerMinute }) => {
+          const usage = await redis.hgetall(
+            `${USAGE_KEY_PREFIX}${date}:${key}`
+          );
+          const { [USAGE_TOTAL_FIELD]: total, ...routes } = usage;
+          return {
+            name,
+            // enough to tell the keys of a partner apart
+            keySuffix: key.slice(-4),
+            dailyQuota,
+            rateLimitPerMinute:
+              rateLimitPerMinute ?? config.defaultRateLimitPerMinute,
+            total: Number(total || 0),
+            routes: Object.fromEntries(
+              Object.entries(routes).map(([route, count]) => [
+                route,
+                Number(count),
+              ])
+            ),
+          };
+        })
+      );
+    },
+  };
+}
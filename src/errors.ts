@@ -0,0 +1,142 @@
+import { OpenAPIV3 } from "openapi-types";
+
+/**
+ * Every error code the api answers with, clients should match on the code rather than the message.
+ */
+export const ERRORS = {
+  INVALID_REQUEST: {
+    statusCode: 400,
+    description:
+      "A parameter is missing or invalid, context: validation (the schema errors) when the request does not match the schema",
+  },
+  INVALID_MINT: {
+    statusCode: 400,
+    description:
+      "The inputMint or outputMint is neither a mint address nor a known symbol, context: inputMint, outputMint",
+  },
+  AMOUNT_TOO_LARGE: {
+    statusCode: 400,
+    description: "The amount does not fit in a u64, context: amount, maxAmount",
+  },
+  INVALID_SPLIT_TRADE: {
+    statusCode: 400,
+    description:
+      "The two amms of a split trade cannot be combined, context: ammIds",
+  },
+  INVALID_PAYMENTS: {
+    statusCode: 400,
+    description:
+      "The payments exceed the guaranteed output of the swap, context: totalPaymentAmount, guaranteedAmount",
+  },
+  INVALID_FEE: {
+    statusCode: 400,
+    description:
+      "The feeBps is above the integrator cap or the fee account cannot receive the fee, context: feeBps, maxFeeBps or feeAccount, feeMint, status",
+  },
+  UNSUPPORTED_TOKEN: {
+    statusCode: 400,
+    description:
+      "Every route goes through a token-2022 mint with extensions the api cannot handle, a transfer fee cannot be handled in ExactOut, context: mint, extensions. /swap also answers it when the swap fails in simulation at an instruction moving a token-2022 account, context: instructionIndex, error, logs",
+  },
+  UNAUTHORIZED: {
+    statusCode: 401,
+    description: "The x-api-key header is missing or unknown",
+  },
+  FORBIDDEN: {
+    statusCode: 403,
+    description: "The api key is not allowed to use this route",
+  },
+  QUOTE_NOT_FOUND: {
+    statusCode: 404,
+    description: "The quoteId is unknown or expired, context: quoteId",
+  },
+  AMM_NOT_FOUND: {
+    statusCode: 404,
+    description: "An amm of the route is not loaded anymore, context: ammId",
+  },
+  NO_ROUTES_FOUND: {
+    statusCode: 404,
+    description:
+      "No route between the mints for the amount, context: inputMint, outputMint, amount and the includeDexes, excludeDexes, excludeAmmIds of the request",
+  },
+  ROUTE_DRIFTED: {
+    statusCode: 409,
+    description:
+      "The pools moved since the quote and the route misses its otherAmountThreshold, context: driftBps, inAmount, outAmount, otherAmountThreshold, freshInAmount, freshOutAmount, or ammId, label, reason when an amm cannot quote its market anymore",
+  },
+  GUARDRAIL_REJECTED: {
+    statusCode: 422,
+    description:
+      "Every route breaks a safety limit, pass the override of each violation to accept it, context: violations (guardrail, message, value, limit, override)",
+  },
+  TRANSACTION_TOO_LARGE: {
+    statusCode: 422,
+    description:
+      "A part of the swap does not fit in a transaction even split in setup, swap and cleanup, context: role, markets",
+  },
+  RATE_LIMITED: {
+    statusCode: 429,
+    description:
+      "The api key made too many requests this minute, context: max, after",
+  },
+  QUOTA_EXCEEDED: {
+    statusCode: 429,
+    description:
+      "The api key used its daily quota, it resets at 00:00 UTC, context: dailyQuota",
+  },
+  SWAP_FAILED: {
+    statusCode: 500,
+    description:
+      "The swap transaction could not be built, context: markets (label(id) of each market of the route)",
+  },
+  STALE_STATE: {
+    statusCode: 503,
+    description:
+      "The account data lags the chain, context: slotsBehind, msSinceUpdate or staleAmmIds",
+  },
+} as const;
+
+export type ErrorCode = keyof typeof ERRORS;
+
+export class ApiError extends Error {
+  readonly statusCode: number;
+
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly context: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.statusCode = ERRORS[code].statusCode;
+  }
+
+  toJSON() {
+    return {
+      statusCode: this.statusCode,
+      code: this.code,
+      message: this.message,
+      context: this.context,
+    };
+  }
+}
+
+export const ErrorResponse: OpenAPIV3.SchemaObject = {
+  type: "object",
+  properties: {
+    statusCode: { type: "integer" },
+    code: {
+      type: "string",
+      description: Object.entries(ERRORS)
+        .map(([code, { description }]) => `${code}: ${description}`)
+        .join("\n\n"),
+    },
+    error: { type: "string" },
+    message: { type: "string" },
+    context: {
+      type: "object",
+      additionalProperties: true,
+      description: "Values relevant to the error, depending on the code",
+    },
+  },
+};
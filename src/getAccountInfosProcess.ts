@@ -1,8 +1,12 @@
 import { AccountInfo } from "@solana/web3.js";
 import { isMainThread, parentPort } from "worker_threads";
 import { deserializeAccountInfosMap } from "./utils/accountInfos";
+import {
+  CONTEXT_SLOT_KEY,
+  readAccountsSnapshot,
+  readAccountUpdates,
+} from "./utils/accountUpdates";
 import { redis } from "./utils/redis";
-import { wait } from "./utils/wait";
 
 export const runGetAccountInfosProcess = async () => {
   if (isMainThread) {
@@ -10,34 +14,22 @@ export const runGetAccountInfosProcess = async () => {
   }
 
   const accountInfosMap = new Map<string, AccountInfo<string[]>>();
-  let lastAllAccounts: string = "";
-  while (true) {
-    const updatedAccountInfosMap = new Map<string, AccountInfo<string[]>>();
-
-    const contextSlot = await redis.get("contextSlot");
+  let lastSeq = 0;
 
-    const allAccountsResult = await redis.get("allAccounts");
+  const postAccountInfos = async (
+    contextSlot: number,
+    newAccountInfosMap: Map<string, AccountInfo<string[]>>
+  ) => {
+    const updatedAccountInfosMap = new Map<string, AccountInfo<string[]>>();
 
-    if (allAccountsResult) {
-      if (lastAllAccounts === allAccountsResult) {
-        // skip to next loop if it's the same
-        await wait(100);
-        continue;
+    newAccountInfosMap.forEach((value, key) => {
+      if (accountInfosMap.get(key)?.data[0] !== value.data[0]) {
+        // set updatedAccountInfosMap to be sent to main process
+        updatedAccountInfosMap.set(key, value);
+        // update accountInfosMap to be used in next iteration
+        accountInfosMap.set(key, value);
       }
-      lastAllAccounts = allAccountsResult;
-
-      const newAccountInfosMap = new Map<string, AccountInfo<string[]>>(
-        JSON.parse(allAccountsResult)
-      );
-      newAccountInfosMap.forEach((value, key) => {
-        if (accountInfosMap.get(key)?.data[0] !== value.data[0]) {
-          // set updatedAccountInfosMap to be sent to main process
-          updatedAccountInfosMap.set(key, value);
-          // update accountInfosMap to be used in next iteration
-          accountInfosMap.set(key, value);
-        }
-      });
-    }
+    });
 
     if (updatedAccountInfosMap.size > 0) {
       parentPort?.postMessage({
@@ -53,7 +45,47 @@ export const runGetAccountInfosProcess = async () => {
         contextSlot,
       });
     }
+  };
 
-    await wait(400);
+  const resync = async () => {
+    const snapshot = await readAccountsSnapshot(redis);
+    lastSeq = snapshot.seq;
+    await postAccountInfos(snapshot.contextSlot, snapshot.accountInfosMap);
+  };
+
+  await resync();
+
+  while (true) {
+    const updates = await readAccountUpdates(redis, lastSeq, 400);
+
+    if (updates.length === 0) {
+      parentPort?.postMessage({
+        type: "contextSlot",
+        contextSlot: Number(await redis.get(CONTEXT_SLOT_KEY)),
+      });
+      continue;
+    }
+
+    // merge the deltas so the main thread updates each amm once
+    const mergedAccountInfosMap = new Map<string, AccountInfo<string[]>>();
+    let contextSlot = 0;
+    let hasGap = false;
+    for (const update of updates) {
+      if (update.type === "snapshot" || update.seq !== lastSeq + 1) {
+        hasGap = true;
+        break;
+      }
+      lastSeq = update.seq;
+      contextSlot = update.contextSlot;
+      update.accountInfosMap.forEach((value, key) => {
+        mergedAccountInfosMap.set(key, value);
+      });
+    }
+
+    if (hasGap) {
+      await resync();
+    } else {
+      await postAccountInfos(contextSlot, mergedAccountInfosMap);
+    }
   }
 };
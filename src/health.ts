@@ -0,0 +1,75 @@
+import Redis from "ioredis";
+import { StalenessTracker } from "./staleness";
+
+// a blockhash is valid for about a minute, it is refreshed every second
+const MAX_BLOCKHASH_AGE_MS = 10_000;
+const MAX_WORKER_SILENCE_MS = 10_000;
+
+export type WorkerState = {
+  online: boolean;
+  // Date.now() of the last message from the worker
+  lastMessageTime: number;
+};
+
+/**
+ * Gather the state of every dependency of the quote and swap routes.
+ */
+export function createHealthCheck({
+  redis,
+  staleness,
+  getWorkerState,
+  getBlockhashTime,
+}: {
+  redis: Redis;
+  staleness: StalenessTracker;
+  getWorkerState: () => WorkerState;
+  getBlockhashTime: () => number;
+}) {
+  async function pingRedis() {
+    try {
+      return (await redis.ping()) === "PONG";
+    } catch (e) {
+      return false;
+    }
+  }
+
+  return async function getReport() {
+    const now = Date.now();
+    const workerState = getWorkerState();
+    const { chainSlot, contextSlot, slotsBehind, msSinceUpdate, isStale } =
+      staleness.getStaleness();
+
+    const redisReport = { ok: await pingRedis() };
+    const workerReport = {
+      ok:
+        workerState.online &&
+        now - workerState.lastMessageTime < MAX_WORKER_SILENCE_MS,
+      online: workerState.online,
+      msSinceLastMessage: now - workerState.lastMessageTime,
+    };
+    const blockhashReport = {
+      ok: now - getBlockhashTime() < MAX_BLOCKHASH_AGE_MS,
+      ageMs: now - getBlockhashTime(),
+    };
+    const accountsReport = {
+      ok: !isStale,
+      chainSlot,
+      contextSlot,
+      slotsBehind,
+      msSinceUpdate,
+      failedAmmCount: staleness.getFailedAmmIds().length,
+    };
+
+    return {
+      ready:
+        redisReport.ok &&
+        workerReport.ok &&
+        blockhashReport.ok &&
+        accountsReport.ok,
+      redis: redisReport,
+      worker: workerReport,
+      blockhash: blockhashReport,
+      accounts: accountsReport,
+    };
+  };
+}
@@ -0,0 +1,70 @@
+import { PublicKey } from "@solana/web3.js";
+import { readFileSync } from "fs";
+import { MAX_FEE_BPS } from "./utils/fee";
+
+export type Integrator = {
+  name: string;
+  // the api keys of the integrator, and/or a referral passed to /quote
+  apiKeys?: string[];
+  referral?: string;
+  // the fee charged when /quote has no feeBps, and the most it can charge
+  maxFeeBps: number;
+  // owner of the fee token accounts, one per output mint
+  feeWallet: PublicKey;
+};
+
+export type MissingFeeAccountPolicy = "reject" | "warn";
+
+export function getIntegratorsConfig() {
+  return {
+    path: process.env.INTEGRATORS_PATH,
+    // warn builds the swap without the fee
+    onMissingFeeAccount: (process.env.MISSING_FEE_ACCOUNT_POLICY === "warn"
+      ? "warn"
+      : "reject") as MissingFeeAccountPolicy,
+  };
+}
+
+/**
+ * Integrator profiles from a JSON file, looked up by api key or referral.
+ */
+export function createIntegrators(
+  config: ReturnType<typeof getIntegratorsConfig> = getIntegratorsConfig()
+) {
+  const byName = new Map<string, Integrator>();
+  const byApiKey = new Map<string, Integrator>();
+  const byReferral = new Map<string, Integrator>();
+
+  if (config.path) {
+    const profiles: Array<
+      Omit<Integrator, "feeWallet"> & { feeWallet: string }
+    > = JSON.parse(readFileSync(config.path, "utf-8"));
+    profiles.forEach(({ feeWallet, ...profile }) => {
+      if (profile.maxFeeBps < 0 || profile.maxFeeBps > MAX_FEE_BPS) {
+        throw new Error(
+          `Integrator ${profile.name} maxFeeBps must be between 0 and ${MAX_FEE_BPS}`
+        );
+      }
+      const integrator = { ...profile, feeWallet: new PublicKey(feeWallet) };
+      byName.set(integrator.name, integrator);
+      integrator.apiKeys?.forEach((apiKey) => byApiKey.set(apiKey, integrator));
+      if (integrator.referral) {
+        byReferral.set(integrator.referral, integrator);
+      }
+    });
+  }
+
+  return {
+    config,
+    getByName(name: string) {
+      return byName.get(name);
+    },
+    /**
+     * The referral wins over the api key, an api key can serve several integrators.
+     */
+    find({ apiKey, referral }: { apiKey?: string; referral?: string }) {
+      if (referral) return byReferral.get(referral);
+      return apiKey ? byApiKey.get(apiKey) : undefined;
+    },
+  };
+}
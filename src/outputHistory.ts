@@ -0,0 +1,172 @@
+import { SwapMode } from "@jup-ag/core";
+import type { Amm } from "@jup-ag/core/dist/lib/amm";
+import { PublicKey } from "@solana/web3.js";
+import JSBI from "jsbi";
+
+export function getOutputHistoryConfig() {
+  return {
+    // how far back the outputs are compared
+    windowMs: Number(process.env.OUTPUT_HISTORY_WINDOW_MS || 60_000),
+    maxSamples: Number(process.env.OUTPUT_HISTORY_MAX_SAMPLES || 120),
+    // a pair no auto slippage quote went through for that long is not quoted on updates anymore
+    idleMs: Number(process.env.OUTPUT_HISTORY_IDLE_MS || 10 * 60_000),
+  };
+}
+
+type Sample = {
+  // Date.now() of the update
+  time: number;
+  slot: number;
+  outAmount: JSBI;
+};
+
+type TrackedPair = {
+  amm: Amm;
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  // the samples quote the same amount so they can be compared
+  amount: JSBI;
+  samples: Sample[];
+  lastUsedTime: number;
+};
+
+export type OutputVolatility = {
+  samples: number;
+  // spread of the outputs in the window, relative to the highest
+  volatilityBps: number | undefined;
+};
+
+/**
+ * Keep a rolling history of the output of amms for the pairs they were quoted for, sampled on every account update.
+ * Only the pairs of auto slippage quotes are tracked, quoting every amm on every update would be too slow.
+ */
+export function createOutputHistory(config = getOutputHistoryConfig()) {
+  const pairs = new Map<string, TrackedPair>();
+  const pairKeysByAmmId = new Map<string, Set<string>>();
+
+  function getPairKey(
+    ammId: string,
+    inputMint: PublicKey,
+    outputMint: PublicKey
+  ) {
+    return `${ammId}:${inputMint.toBase58()}:${outputMint.toBase58()}`;
+  }
+
+  function quote({ amm, inputMint, outputMint, amount }: TrackedPair) {
+    return amm.getQuote({
+      sourceMint: inputMint,
+      destinationMint: outputMint,
+      amount,
+      swapMode: SwapMode.ExactIn,
+    }).outAmount;
+  }
+
+  function addSample(pair: TrackedPair, slot: number) {
+    const now = Date.now();
+    try {
+      pair.samples.push({ time: now, slot, outAmount: quote(pair) });
+    } catch (e) {
+      // the amm cannot quote the amount anymore, the gap shows as fewer samples
+      return;
+    }
+    const start = pair.samples.findIndex(
+      ({ time }) => now - time <= config.windowMs
+    );
+    pair.samples.splice(
+      0,
+      Math.max(start, pair.samples.length - config.maxSamples, 0)
+    );
+  }
+
+  function untrack(pairKey: string) {
+    const pair = pairs.get(pairKey);
+    if (!pair) return;
+    pairs.delete(pairKey);
+    const pairKeys = pairKeysByAmmId.get(pair.amm.id);
+    pairKeys?.delete(pairKey);
+    if (pairKeys?.size === 0) pairKeysByAmmId.delete(pair.amm.id);
+  }
+
+  return {
+    /**
+     * Start or keep sampling the output of the amm for the pair, the first amount quoted is kept as the sample amount.
+     */
+    track(
+      amm: Amm,
+      inputMint: PublicKey,
+      outputMint: PublicKey,
+      amount: JSBI,
+      slot: number
+    ) {
+      const pairKey = getPairKey(amm.id, inputMint, outputMint);
+      const pair = pairs.get(pairKey);
+      if (pair) {
+        pair.lastUsedTime = Date.now();
+        return;
+      }
+
+      const newPair: TrackedPair = {
+        amm,
+        inputMint,
+        outputMint,
+        amount,
+        samples: [],
+        lastUsedTime: Date.now(),
+      };
+      addSample(newPair, slot);
+      pairs.set(pairKey, newPair);
+      const pairKeys = pairKeysByAmmId.get(amm.id) || new Set();
+      pairKeys.add(pairKey);
+      pairKeysByAmmId.set(amm.id, pairKeys);
+    },
+    /**
+     * Sample the tracked pairs of the updated amms, after amm.update.
+     */
+    recordAmmUpdates(ammIds: Iterable<string>, slot: number) {
+      const now = Date.now();
+      for (const ammId of ammIds) {
+        pairKeysByAmmId.get(ammId)?.forEach((pairKey) => {
+          const pair = pairs.get(pairKey)!;
+          if (now - pair.lastUsedTime > config.idleMs) {
+            untrack(pairKey);
+          } else {
+            addSample(pair, slot);
+          }
+        });
+      }
+    },
+    getVolatility(
+      ammId: string,
+      inputMint: PublicKey,
+      outputMint: PublicKey
+    ): OutputVolatility {
+      const samples =
+        pairs
+          .get(getPairKey(ammId, inputMint, outputMint))
+          ?.samples.filter(({ time }) => Date.now() - time <= config.windowMs)
+          .map(({ outAmount }) => outAmount) || [];
+      if (samples.length < 2) {
+        return { samples: samples.length, volatilityBps: undefined };
+      }
+
+      const [min, max] = samples.reduce(
+        ([min, max], outAmount) => [
+          JSBI.lessThan(outAmount, min) ? outAmount : min,
+          JSBI.greaterThan(outAmount, max) ? outAmount : max,
+        ],
+        [samples[0], samples[0]]
+      );
+      return {
+        samples: samples.length,
+        volatilityBps: JSBI.equal(max, JSBI.BigInt(0))
+          ? 0
+          : JSBI.toNumber(
+              JSBI.divide(
+                JSBI.multiply(JSBI.subtract(max, min), JSBI.BigInt(10_000)),
+                max
+              )
+            ),
+      };
+    },
+  };
+}
@@ -0,0 +1,207 @@
+import { RouteInfo, SplitTradeAmm, SwapMode } from "@jup-ag/core";
+import type { Amm } from "@jup-ag/core/dist/lib/amm";
+import { PublicKey } from "@solana/web3.js";
+import { randomUUID } from "crypto";
+import Redis from "ioredis";
+import JSBI from "jsbi";
+import { ApiError } from "./errors";
+import { getSplitTradePortions } from "./utils/route";
+
+const QUOTE_KEY_PREFIX = "quote:";
+
+export function getQuoteCacheConfig() {
+  return {
+    ttlSeconds: Number(process.env.QUOTE_TTL_SECONDS || 30),
+  };
+}
+
+type CachedFee = { amount: string; mint: string; pct: number };
+
+type CachedMarketInfo = {
+  // a split trade is made of two amms
+  ammIds: string[];
+  portions?: [number, number];
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  minInAmount?: string;
+  minOutAmount?: string;
+  notEnoughLiquidity: boolean;
+  priceImpactPct: number;
+  lpFee: CachedFee;
+  platformFee: CachedFee;
+};
+
+type CachedRoute = {
+  inAmount: string;
+  outAmount: string;
+  amount: string;
+  otherAmountThreshold: string;
+  slippageBps: number;
+  swapMode: SwapMode;
+  priceImpactPct: number;
+  marketInfos: CachedMarketInfo[];
+};
+
+function toCachedRoute({
+  marketInfos,
+  inAmount,
+  outAmount,
+  amount,
+  otherAmountThreshold,
+  slippageBps,
+  swapMode,
+  priceImpactPct,
+}: RouteInfo): CachedRoute {
+  return {
+    inAmount: inAmount.toString(),
+    outAmount: outAmount.toString(),
+    amount: amount.toString(),
+    otherAmountThreshold: otherAmountThreshold.toString(),
+    slippageBps,
+    swapMode,
+    priceImpactPct,
+    marketInfos: marketInfos.map(
+      ({
+        amm,
+        inputMint,
+        outputMint,
+        inAmount,
+        outAmount,
+        minInAmount,
+        minOutAmount,
+        lpFee,
+        platformFee,
+        ...info
+      }) => ({
+        ...(amm instanceof SplitTradeAmm
+          ? {
+              ammIds: [amm.firstAmm.id, amm.secondAmm.id],
+              portions: getSplitTradePortions(amm),
+            }
+          : { ammIds: [amm.id] }),
+        inputMint: inputMint.toBase58(),
+        outputMint: outputMint.toBase58(),
+        inAmount: inAmount.toString(),
+        outAmount: outAmount.toString(),
+        minInAmount: minInAmount?.toString(),
+        minOutAmount: minOutAmount?.toString(),
+        notEnoughLiquidity: info.notEnoughLiquidity,
+        priceImpactPct: info.priceImpactPct,
+        lpFee: { ...lpFee, amount: lpFee.amount.toString() },
+        platformFee: { ...platformFee, amount: platformFee.amount.toString() },
+      })
+    ),
+  };
+}
+
+/**
+ * Keep the routes returned by the quote endpoints so the swap endpoints build them from our own data rather than the client's.
+ * Routes are stored in redis so every api instance can swap a quote from another, along with the params to quote them again.
+ */
+export function createQuoteCache<QuoteParams>({
+  redis,
+  getAmm,
+  ttlSeconds = getQuoteCacheConfig().ttlSeconds,
+}: {
+  redis: Redis;
+  getAmm: (ammId: string) => Amm | undefined;
+  ttlSeconds?: number;
+}) {
+  function toAmm({ ammIds, portions }: CachedMarketInfo): Amm {
+    const amms = ammIds.map((ammId) => {
+      const amm = getAmm(ammId);
+      if (!amm) {
+        throw new ApiError("AMM_NOT_FOUND", `Amm ${ammId} not found`, {
+          ammId,
+        });
+      }
+      return amm;
+    });
+    if (amms.length === 1) return amms[0];
+
+    const splitTradeAmm = SplitTradeAmm.create(amms[0], amms[1]);
+    if (!splitTradeAmm || !portions) {
+      throw new ApiError(
+        "INVALID_SPLIT_TRADE",
+        "Invalid Split Trade combination",
+        { ammIds }
+      );
+    }
+    splitTradeAmm.setPortions(portions[0], portions[1]);
+    return splitTradeAmm;
+  }
+
+  return {
+    /**
+     * Store the routes and return their quote ids, in the same order.
+     */
+    async storeRoutes(
+      routes: RouteInfo[],
+      params: QuoteParams
+    ): Promise<string[]> {
+      if (routes.length === 0) return [];
+
+      const quoteIds = routes.map(() => randomUUID());
+      const multi = redis.multi();
+      routes.forEach((route, idx) => {
+        multi.set(
+          `${QUOTE_KEY_PREFIX}${quoteIds[idx]}`,
+          JSON.stringify({ route: toCachedRoute(route), params }),
+          "EX",
+          ttlSeconds
+        );
+      });
+      await multi.exec();
+
+      return quoteIds;
+    },
+    /**
+     * The stored route with the current amms, undefined once it expired.
+     */
+    async getQuote(
+      quoteId: string
+    ): Promise<{ route: RouteInfo; params: QuoteParams } | undefined> {
+      const value = await redis.get(`${QUOTE_KEY_PREFIX}${quoteId}`);
+      if (!value) return undefined;
+
+      const { route, params }: { route: CachedRoute; params: QuoteParams } =
+        JSON.parse(value);
+      return {
+        params,
+        route: {
+          ...route,
+          inAmount: JSBI.BigInt(route.inAmount),
+          outAmount: JSBI.BigInt(route.outAmount),
+          amount: JSBI.BigInt(route.amount),
+          otherAmountThreshold: JSBI.BigInt(route.otherAmountThreshold),
+          getDepositAndFee: () => Promise.resolve(undefined),
+          marketInfos: route.marketInfos.map((marketInfo) => ({
+            amm: toAmm(marketInfo),
+            inputMint: new PublicKey(marketInfo.inputMint),
+            outputMint: new PublicKey(marketInfo.outputMint),
+            inAmount: JSBI.BigInt(marketInfo.inAmount),
+            outAmount: JSBI.BigInt(marketInfo.outAmount),
+            minInAmount: marketInfo.minInAmount
+              ? JSBI.BigInt(marketInfo.minInAmount)
+              : undefined,
+            minOutAmount: marketInfo.minOutAmount
+              ? JSBI.BigInt(marketInfo.minOutAmount)
+              : undefined,
+            notEnoughLiquidity: marketInfo.notEnoughLiquidity,
+            priceImpactPct: marketInfo.priceImpactPct,
+            lpFee: {
+              ...marketInfo.lpFee,
+              amount: JSBI.BigInt(marketInfo.lpFee.amount),
+            },
+            platformFee: {
+              ...marketInfo.platformFee,
+              amount: JSBI.BigInt(marketInfo.platformFee.amount),
+            },
+          })),
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,341 @@
+import { Jupiter, SwapMode } from "@jup-ag/core";
+import { PublicKey } from "@solana/web3.js";
+import JSBI from "jsbi";
+import type { SocketStream } from "@fastify/websocket";
+import { MAX_SLIPPAGE_BPS, MIN_SLIPPAGE_BPS } from "./utils/slippage";
+import { MAX_SAFE_U64 } from "./utils/u64";
+import { resolveToken } from "./utils/tokenRegistry";
+import { ApiError } from "./errors";
+
+const MAX_SUBSCRIPTIONS_PER_SOCKET = 100;
+
+type WebSocket = SocketStream["socket"];
+
+type QuoteParams = {
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  amount: JSBI;
+  slippageBps: number;
+  swapMode: SwapMode;
+  onlyDirectRoutes: boolean;
+};
+
+// the query of a quote, validated and cached by the api like /quote
+export type QuoteRequest = {
+  inputMint: string;
+  outputMint: string;
+  amount: string;
+  slippageBps: string;
+  swapMode: string;
+  onlyDirectRoutes: boolean;
+};
+
+type Subscription = {
+  id: string;
+  params: QuoteParams;
+  // every amm that can be on a route of the pair, an update to any of them can change the quote
+  ammIds: Set<string>;
+  sockets: Set<WebSocket>;
+  computing: boolean;
+  stale: boolean;
+};
+
+type ClientMessage =
+  | {
+      type: "subscribe";
+      inputMint: string;
+      outputMint: string;
+      amount: string;
+      slippageBps?: number;
+      swapMode?: string;
+      onlyDirectRoutes?: boolean;
+    }
+  | { type: "unsubscribe"; id: string };
+
+function send(socket: WebSocket, message: object) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function sendError(
+  socket: WebSocket,
+  { code, message, context }: ApiError,
+  id?: string
+) {
+  send(socket, { type: "error", id, code, message, context });
+}
+
+function parseSubscribeMessage(
+  message: Extract<ClientMessage, { type: "subscribe" }>
+): QuoteParams {
+  // JSBI.BigInt throws a SyntaxError on decimals and signs
+  if (typeof message.amount !== "string" || !/^\d+$/.test(message.amount)) {
+    throw new ApiError(
+      "INVALID_REQUEST",
+      "amount must be an integer in the smallest unit of the mint",
+      { amount: message.amount }
+    );
+  }
+  const amount = JSBI.BigInt(message.amount);
+  if (JSBI.greaterThan(amount, MAX_SAFE_U64)) {
+    throw new ApiError(
+      "AMOUNT_TOO_LARGE",
+      `Amount is too large, max is ${MAX_SAFE_U64.toString()}`,
+      { amount: message.amount, maxAmount: MAX_SAFE_U64.toString() }
+    );
+  }
+
+  const slippageBps = Math.floor(Number(message.slippageBps ?? 5));
+  if (
+    !Number.isFinite(slippageBps) ||
+    slippageBps < MIN_SLIPPAGE_BPS ||
+    slippageBps > MAX_SLIPPAGE_BPS
+  ) {
+    throw new ApiError("INVALID_REQUEST", "Invalid slippageBps");
+  }
+
+  const swapMode = (message.swapMode ?? SwapMode.ExactIn) as SwapMode;
+  if (swapMode !== SwapMode.ExactIn && swapMode !== SwapMode.ExactOut) {
+    throw new ApiError("INVALID_REQUEST", "Invalid swapMode");
+  }
+
+  let inputMint: PublicKey, outputMint: PublicKey;
+  try {
+    inputMint = resolveToken(message.inputMint).mint;
+    outputMint = resolveToken(message.outputMint).mint;
+  } catch (e) {
+    throw new ApiError("INVALID_MINT", "Invalid inputMint or outputMint", {
+      inputMint: message.inputMint,
+      outputMint: message.outputMint,
+    });
+  }
+
+  return {
+    inputMint,
+    outputMint,
+    amount,
+    slippageBps,
+    swapMode,
+    onlyDirectRoutes: Boolean(message.onlyDirectRoutes),
+  };
+}
+
+/**
+ * Quote subscriptions over websocket, quotes are pushed again whenever an amm of the pair is updated.
+ */
+export function createQuoteSubscriptions({
+  jupiter,
+  quoteRoutes,
+  getContextSlot,
+}: {
+  jupiter: Jupiter;
+  // the serialized routes with their quoteId, as /quote returns them
+  quoteRoutes: (request: QuoteRequest) => Promise<object[]>;
+  getContextSlot: () => number;
+}) {
+  const subscriptions = new Map<string, Subscription>();
+
+  function getPairAmmIds(inputMint: string, outputMint: string) {
+    const ammIds = new Set<string>();
+    const inputSegments = jupiter.tokenRouteSegments.get(inputMint);
+
+    inputSegments?.get(outputMint)?.forEach((amm) => ammIds.add(amm.id));
+    inputSegments?.forEach((amms, intermediateMint) => {
+      const outputAmms = jupiter.tokenRouteSegments
+        .get(intermediateMint)
+        ?.get(outputMint);
+      if (outputAmms) {
+        amms.forEach((amm) => ammIds.add(amm.id));
+        outputAmms.forEach((amm) => ammIds.add(amm.id));
+      }
+    });
+
+    return ammIds;
+  }
+
+  async function pushQuote(
+    subscription: Subscription,
+    sockets: Iterable<WebSocket> = subscription.sockets
+  ) {
+    const { params } = subscription;
+    try {
+      const data = await quoteRoutes({
+        inputMint: params.inputMint.toBase58(),
+        outputMint: params.outputMint.toBase58(),
+        amount: params.amount.toString(),
+        slippageBps: params.slippageBps.toString(),
+        swapMode: params.swapMode,
+        onlyDirectRoutes: params.onlyDirectRoutes,
+      });
+
+      const message = {
+        type: "quote",
+        id: subscription.id,
+        data,
+        contextSlot: getContextSlot(),
+      };
+      for (const socket of sockets) {
+        send(socket, message);
+      }
+    } catch (e) {
+      if (e instanceof ApiError) {
+        // no route, stale state or a guardrail, the subscription stays and the next update may quote
+        for (const socket of sockets) {
+          sendError(socket, e, subscription.id);
+        }
+        return;
+      }
+      console.error(`Failed to compute quote for ${subscription.id}, ${e}`);
+    }
+  }
+
+  async function refresh(subscription: Subscription) {
+    // coalesce updates that arrive while a quote is being computed
+    if (subscription.computing) {
+      subscription.stale = true;
+      return;
+    }
+
+    subscription.computing = true;
+    do {
+      subscription.stale = false;
+      await pushQuote(subscription);
+    } while (subscription.stale && subscriptions.has(subscription.id));
+    subscription.computing = false;
+  }
+
+  function subscribe(socket: WebSocket, params: QuoteParams) {
+    const id = [
+      params.inputMint.toBase58(),
+      params.outputMint.toBase58(),
+      params.amount.toString(),
+      params.slippageBps,
+      params.swapMode,
+      params.onlyDirectRoutes ? "direct" : "all",
+    ].join(":");
+
+    let subscription = subscriptions.get(id);
+    if (!subscription) {
+      subscription = {
+        id,
+        params,
+        ammIds: getPairAmmIds(
+          params.inputMint.toBase58(),
+          params.outputMint.toBase58()
+        ),
+        sockets: new Set(),
+        computing: false,
+        stale: false,
+      };
+      subscriptions.set(id, subscription);
+    }
+    subscription.sockets.add(socket);
+
+    send(socket, { type: "subscribed", id });
+    pushQuote(subscription, [socket]);
+
+    return id;
+  }
+
+  function unsubscribe(socket: WebSocket, id: string) {
+    const subscription = subscriptions.get(id);
+    if (!subscription) return;
+
+    subscription.sockets.delete(socket);
+    if (subscription.sockets.size === 0) {
+      subscriptions.delete(id);
+    }
+  }
+
+  function handleConnection(socket: WebSocket) {
+    const socketSubscriptionIds = new Set<string>();
+
+    function handleMessage(data: { toString(): string }) {
+      let message: ClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (e) {
+        sendError(socket, new ApiError("INVALID_REQUEST", "Invalid JSON"));
+        return;
+      }
+      if (typeof message !== "object" || message === null) {
+        sendError(
+          socket,
+          new ApiError("INVALID_REQUEST", "Message must be an object")
+        );
+        return;
+      }
+
+      if (message.type === "subscribe") {
+        if (socketSubscriptionIds.size >= MAX_SUBSCRIPTIONS_PER_SOCKET) {
+          sendError(
+            socket,
+            new ApiError(
+              "INVALID_REQUEST",
+              `Too many subscriptions, max is ${MAX_SUBSCRIPTIONS_PER_SOCKET}`
+            )
+          );
+          return;
+        }
+
+        let params: QuoteParams;
+        try {
+          params = parseSubscribeMessage(message);
+        } catch (e) {
+          sendError(
+            socket,
+            e instanceof ApiError
+              ? e
+              : new ApiError("INVALID_REQUEST", (e as Error).message)
+          );
+          return;
+        }
+        socketSubscriptionIds.add(subscribe(socket, params));
+      } else if (message.type === "unsubscribe") {
+        unsubscribe(socket, message.id);
+        socketSubscriptionIds.delete(message.id);
+        send(socket, { type: "unsubscribed", id: message.id });
+      } else {
+        sendError(
+          socket,
+          new ApiError("INVALID_REQUEST", "Unknown message type")
+        );
+      }
+    }
+
+    socket.on("message", (data) => {
+      // a throw in a ws listener is uncaught and would end the process
+      try {
+        handleMessage(data);
+      } catch (e) {
+        sendError(
+          socket,
+          e instanceof ApiError
+            ? e
+            : new ApiError("INVALID_REQUEST", (e as Error).message)
+        );
+      }
+    });
+
+    socket.on("close", () => {
+      socketSubscriptionIds.forEach((id) => unsubscribe(socket, id));
+    });
+  }
+
+  /**
+   * Push fresh quotes for every subscription with a route through the updated amms.
+   */
+  function notifyAmmsUpdated(ammIds: Set<string>) {
+    subscriptions.forEach((subscription) => {
+      for (const ammId of ammIds) {
+        if (subscription.ammIds.has(ammId)) {
+          refresh(subscription);
+          return;
+        }
+      }
+    });
+  }
+
+  return { handleConnection, notifyAmmsUpdated };
+}
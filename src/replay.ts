@@ -0,0 +1,118 @@
+import { Jupiter, SwapMode } from "@jup-ag/core";
+import { PublicKey } from "@solana/web3.js";
+import JSBI from "jsbi";
+import {
+  getAccountRecorderConfig,
+  readRecordedAccounts,
+} from "./accountRecorder";
+import { ammsToExclude } from "./ammsToExclude";
+import { deserializeAccountInfosMap } from "./utils/accountInfos";
+import { connection } from "./utils/connection";
+import { serializeRouteInfo } from "./utils/route";
+
+const USAGE =
+  "usage: node dist/replay.js --slot <slot> --inputMint <mint> --outputMint <mint> --amount <amount> [--swapMode ExactIn|ExactOut] [--slippageBps <bps>] [--onlyDirectRoutes] [--dir <recorder dir>]";
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string> = {};
+  for (let idx = 0; idx < argv.length; idx++) {
+    const arg = argv[idx];
+    if (!arg.startsWith("--")) continue;
+    const next = argv[idx + 1];
+    if (next === undefined || next.startsWith("--")) {
+      args[arg.slice(2)] = "true";
+    } else {
+      args[arg.slice(2)] = next;
+      idx++;
+    }
+  }
+  return args;
+}
+
+/**
+ * Rebuild the amms from the recorded accounts at a slot and compute the routes of a quote again, to reproduce a past quote.
+ * The markets are the ones loaded today and Jupiter.load seeds them with today's accounts: an amm missing accounts from the
+ * recording (created after the slot, or not fetched then) routes with today's state, it is listed in missingAmms.
+ */
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const dir = args.dir ?? getAccountRecorderConfig().dir;
+  if (
+    !dir ||
+    !args.slot ||
+    !args.inputMint ||
+    !args.outputMint ||
+    !args.amount
+  ) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const { contextSlot, accountInfosMap } = await readRecordedAccounts(
+    dir,
+    Number(args.slot)
+  );
+  const accountInfos = await deserializeAccountInfosMap(accountInfosMap);
+  accountInfos.forEach((value) => {
+    value.data = Buffer.from(value.data);
+    value.owner = new PublicKey(value.owner);
+  });
+
+  const jupiter = await Jupiter.load({
+    connection,
+    cluster: "mainnet-beta",
+    // never fetch again after the load, the amms are then updated with the recorded accounts
+    routeCacheDuration: -1,
+    restrictIntermediateTokens: true,
+    ammsToExclude,
+    usePreloadedAddressLookupTableCache: true,
+  });
+
+  let failedAmms = 0;
+  const missingAmms: Array<{ id: string; label: string }> = [];
+  jupiter.getAmmIdToAmmMap().forEach((amm) => {
+    try {
+      amm.update(accountInfos);
+      // the dynamic accounts are only known after a first update
+      if (amm.hasDynamicAccounts) amm.update(accountInfos);
+    } catch (e) {
+      failedAmms++;
+    }
+    if (
+      amm
+        .getAccountsForUpdate()
+        .some((account) => !accountInfos.has(account.toBase58()))
+    ) {
+      missingAmms.push({ id: amm.id, label: amm.label });
+    }
+  });
+
+  const { routesInfos } = await jupiter.computeRoutes({
+    inputMint: new PublicKey(args.inputMint),
+    outputMint: new PublicKey(args.outputMint),
+    amount: JSBI.BigInt(args.amount),
+    slippageBps: Number(args.slippageBps ?? 5),
+    onlyDirectRoutes: args.onlyDirectRoutes === "true",
+    swapMode: (args.swapMode ?? "ExactIn") as SwapMode,
+  });
+
+  console.log(
+    JSON.stringify(
+      {
+        slot: Number(args.slot),
+        contextSlot,
+        failedAmms,
+        missingAmms,
+        data: routesInfos.map((route) => serializeRouteInfo(route)),
+      },
+      null,
+      2
+    )
+  );
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -1,19 +1,25 @@
-import { Amm, Jupiter } from "@jup-ag/core";
+import { Jupiter } from "@jup-ag/core";
 import { connection } from "./utils/connection";
-import { chunkedGetRawMultipleAccountInfos } from "./utils/chunks";
 import { AccountInfo, PublicKey } from "@solana/web3.js";
 import { redis } from "./utils/redis";
 import { deserializeAccountInfosMap } from "./utils/accountInfos";
-import { wait } from "./utils/wait";
 import { ammsToExclude } from "./ammsToExclude";
+import { createAccountSource } from "./accountSource";
+import { createAccountRecorder } from "./accountRecorder";
+import {
+  CONTEXT_SLOT_KEY,
+  publishAccountUpdates,
+} from "./utils/accountUpdates";
 
 /**
- * Fetch the accounts from the RPC server and publish them through redis.
+ * Fetch the accounts from the RPC server and publish the changed ones through a redis stream.
  */
 async function main() {
   let lastUpdatedData = {
     value: process.uptime(),
   };
+  // ACCOUNT_RECORDER_DIR keeps the deltas on disk for replays
+  const recorder = createAccountRecorder();
 
   async function loadJupiter() {
     const jupiter = await Jupiter.load({
@@ -23,29 +29,25 @@ async function main() {
     });
     const accountToAmmIdsMap = jupiter.getAccountToAmmIdsMap();
     const ammIdToAmmMap = jupiter.getAmmIdToAmmMap();
-    const addressesToFetchSet = new Set(accountToAmmIdsMap.keys());
-
-    const addressesToFetch = {
-      set: addressesToFetchSet,
-      // we have this to prevent doing Array.from in the loop and waste computation
-      array: Array.from(addressesToFetchSet),
-    };
+    // ACCOUNT_SOURCE picks between polling and subscriptions
+    const accountSource = createAccountSource(
+      connection,
+      Array.from(accountToAmmIdsMap.keys())
+    );
 
-    const [contextSlot, accountInfosMap] =
-      await chunkedGetRawMultipleAccountInfos(
-        connection,
-        addressesToFetch.array
-      );
+    const [contextSlot, accountInfosMap] = await accountSource.fetchAll();
 
     const deserializedAccountInfosMap = await deserializeAccountInfosMap(
       accountInfosMap
     );
 
-    await redis.set(
-      "allAccounts",
-      JSON.stringify(Array.from(accountInfosMap.entries()))
+    await publishAccountUpdates(
+      redis,
+      contextSlot,
+      accountInfosMap,
+      "snapshot"
     );
-    await redis.set("contextSlot", contextSlot);
+    recorder.recordSnapshot(contextSlot, accountInfosMap);
 
     deserializedAccountInfosMap.forEach((value) => {
       value.data = Buffer.from(value.data);
@@ -58,7 +60,7 @@ async function main() {
       jupiter,
       ammIdToAmmMap,
       accountToAmmIdsMap,
-      addressesToFetch,
+      accountSource,
       accountInfosMap,
       deserializedAccountInfosMap,
     };
@@ -74,21 +76,17 @@ async function main() {
     }
   }, 30000);
 
-  while (true) {
-    try {
-      const {
-        addressesToFetch,
-        ammIdToAmmMap,
-        accountInfosMap,
-        accountToAmmIdsMap,
-        deserializedAccountInfosMap,
-      } = store;
+  const {
+    accountSource,
+    ammIdToAmmMap,
+    accountInfosMap,
+    accountToAmmIdsMap,
+    deserializedAccountInfosMap,
+  } = store;
+
+  try {
+    await accountSource.start(async (contextSlot, newAccountInfosMap) => {
       const updatedAccountInfosMap = new Map<string, AccountInfo<string[]>>();
-      const [contextSlot, newAccountInfosMap] =
-        await chunkedGetRawMultipleAccountInfos(
-          connection,
-          addressesToFetch.array
-        );
 
       newAccountInfosMap.forEach((value, key) => {
         if (accountInfosMap.get(key)?.data[0] !== value.data[0]) {
@@ -99,16 +97,16 @@ async function main() {
         }
       });
 
+      // the sources only call back with account data or after a successful fetch
       lastUpdatedData.value = process.uptime();
 
       if (updatedAccountInfosMap.size > 0) {
         let ammIdsToUpdate = new Set<string>();
 
-        redis.set(
-          "allAccounts",
-          JSON.stringify(Array.from(accountInfosMap.entries()))
-        );
-        redis.set("contextSlot", contextSlot);
+        // awaited so the stream entries are added in seq order
+        await publishAccountUpdates(redis, contextSlot, updatedAccountInfosMap);
+        // queued in the background, a recorder failure is only logged
+        recorder.recordDelta(contextSlot, updatedAccountInfosMap);
 
         (await deserializeAccountInfosMap(updatedAccountInfosMap)).forEach(
           (value, key) => {
@@ -139,20 +137,19 @@ async function main() {
                   accountToAmmIdsMap.get(account) || new Set();
                 ammsFromMap.add(amm.id);
                 accountToAmmIdsMap.set(account, ammsFromMap);
-                if (!addressesToFetch.set.has(account)) {
-                  addressesToFetch.set.add(account);
-                  addressesToFetch.array.push(account);
-                }
+                accountSource.addAddress(account);
               });
             }
           }
         });
+      } else if (contextSlot) {
+        // nothing changed but the accounts are known to be current as of contextSlot
+        await redis.set(CONTEXT_SLOT_KEY, contextSlot);
       }
-      await wait(200);
-    } catch (e) {
-      console.error(e);
-      process.exit(1);
-    }
+    });
+  } catch (e) {
+    console.error(e);
+    process.exit(1);
   }
 }
 
@@ -0,0 +1,82 @@
+export type StalenessPolicy = "reject" | "flag";
+
+export type StalenessConfig = {
+  // reject answers 503, flag returns the routes with stale: true
+  policy: StalenessPolicy;
+  maxSlotsBehind: number;
+  maxMsSinceUpdate: number;
+};
+
+export function getStalenessConfig(): StalenessConfig {
+  return {
+    policy: process.env.STALENESS_POLICY === "reject" ? "reject" : "flag",
+    maxSlotsBehind: Number(process.env.MAX_STALENESS_SLOTS || 50),
+    maxMsSinceUpdate: Number(process.env.MAX_STALENESS_MS || 20_000),
+  };
+}
+
+type AmmUpdate = {
+  slot: number;
+  // Date.now() of the update
+  time: number;
+  // the last amm.update threw, its state is older than its accounts
+  failed: boolean;
+};
+
+/**
+ * Track how far behind the chain the account data is, globally and per amm.
+ */
+export function createStalenessTracker(
+  config: StalenessConfig = getStalenessConfig()
+) {
+  const ammUpdates = new Map<string, AmmUpdate>();
+  let chainSlot = 0;
+  let contextSlot = 0;
+  let contextSlotTime = Date.now();
+
+  function getStaleness() {
+    const slotsBehind = chainSlot ? Math.max(chainSlot - contextSlot, 0) : 0;
+    const msSinceUpdate = Date.now() - contextSlotTime;
+
+    return {
+      chainSlot,
+      contextSlot,
+      slotsBehind,
+      msSinceUpdate,
+      isStale:
+        slotsBehind > config.maxSlotsBehind ||
+        msSinceUpdate > config.maxMsSinceUpdate,
+    };
+  }
+
+  return {
+    config,
+    getStaleness,
+    recordChainSlot(slot: number) {
+      chainSlot = Math.max(chainSlot, slot);
+    },
+    recordContextSlot(slot: number) {
+      // the same slot posted again means nothing was fetched since, it is not fresher
+      if (slot > contextSlot) {
+        contextSlot = slot;
+        contextSlotTime = Date.now();
+      }
+    },
+    recordAmmUpdate(ammId: string, slot: number, failed: boolean) {
+      ammUpdates.set(ammId, { slot, time: Date.now(), failed });
+    },
+    getAmmUpdate(ammId: string): AmmUpdate | undefined {
+      return ammUpdates.get(ammId);
+    },
+    getFailedAmmIds() {
+      return Array.from(ammUpdates.entries())
+        .filter(([, { failed }]) => failed)
+        .map(([ammId]) => ammId);
+    },
+    isAmmStale(ammId: string) {
+      return Boolean(ammUpdates.get(ammId)?.failed) || getStaleness().isStale;
+    },
+  };
+}
+
+export type StalenessTracker = ReturnType<typeof createStalenessTracker>;
@@ -1,7 +1,17 @@
 import { AccountInfo } from "@solana/web3.js";
-import { decompress } from "@mongodb-js/zstd";
+import { compress, decompress } from "@mongodb-js/zstd";
 
-async function deserializeAccountInfo(
+/**
+ * Compress an account into the same base64+zstd encoding the rpc returns.
+ */
+export async function serializeAccountInfo(
+  accountInfo: AccountInfo<Buffer>
+): Promise<AccountInfo<string[]>> {
+  const data = (await compress(accountInfo.data)).toString("base64");
+  return { ...accountInfo, data: [data, "base64+zstd"] };
+}
+
+export async function deserializeAccountInfo(
   accountInfo: AccountInfo<string[]>
 ): Promise<AccountInfo<Buffer>> {
   // purposely mutate data, so it's faster
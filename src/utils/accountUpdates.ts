@@ -0,0 +1,143 @@
+import { AccountInfo } from "@solana/web3.js";
+import Redis from "ioredis";
+
+// Hash of every account, the snapshot workers resync from
+export const ACCOUNTS_KEY = "accounts";
+// Counter the seq of each update is taken from
+export const ACCOUNTS_SEQ_KEY = "accountsSeq";
+// Seq of the last update applied to the snapshot, written with it
+export const ACCOUNTS_APPLIED_SEQ_KEY = "accountsAppliedSeq";
+// Stream of changed accounts, the entry id is `${seq}-0` so workers can detect gaps
+export const ACCOUNT_UPDATES_STREAM_KEY = "accountUpdates";
+export const CONTEXT_SLOT_KEY = "contextSlot";
+
+const STREAM_MAX_LENGTH = 10_000;
+
+export type AccountUpdate = {
+  seq: number;
+  contextSlot: number;
+  // a snapshot entry means the whole account set was replaced and workers should resync
+  type: "delta" | "snapshot";
+  accountInfosMap: Map<string, AccountInfo<string[]>>;
+};
+
+/**
+ * Publish the changed accounts, the snapshot and the stream are updated in the same transaction.
+ */
+export async function publishAccountUpdates(
+  redis: Redis,
+  contextSlot: number,
+  accountInfosMap: Map<string, AccountInfo<string[]>>,
+  type: AccountUpdate["type"] = "delta"
+) {
+  // INCR outside of the transaction, a failed transaction leaves a gap which workers resync from
+  const seq = await redis.incr(ACCOUNTS_SEQ_KEY);
+
+  const serializedAccounts: Record<string, string> = {};
+  accountInfosMap.forEach((value, key) => {
+    serializedAccounts[key] = JSON.stringify(value);
+  });
+
+  const transaction = redis.multi();
+  if (type === "snapshot") {
+    transaction.del(ACCOUNTS_KEY);
+  }
+  if (accountInfosMap.size > 0) {
+    transaction.hset(ACCOUNTS_KEY, serializedAccounts);
+  }
+  transaction.set(CONTEXT_SLOT_KEY, contextSlot);
+  // the counter can be ahead of the snapshot until this transaction runs, workers resume from this one
+  transaction.set(ACCOUNTS_APPLIED_SEQ_KEY, seq);
+  transaction.xadd(
+    ACCOUNT_UPDATES_STREAM_KEY,
+    "MAXLEN",
+    "~",
+    STREAM_MAX_LENGTH,
+    `${seq}-0`,
+    "type",
+    type,
+    "contextSlot",
+    contextSlot,
+    // the snapshot is too big for the stream, workers read it from the hash
+    "accounts",
+    type === "snapshot"
+      ? "[]"
+      : JSON.stringify(Array.from(accountInfosMap.entries()))
+  );
+  await transaction.exec();
+
+  return seq;
+}
+
+/**
+ * Read the full account set along with the seq it is consistent with.
+ */
+export async function readAccountsSnapshot(redis: Redis): Promise<{
+  seq: number;
+  contextSlot: number;
+  accountInfosMap: Map<string, AccountInfo<string[]>>;
+}> {
+  const results = await redis
+    .multi()
+    .get(ACCOUNTS_APPLIED_SEQ_KEY)
+    .get(CONTEXT_SLOT_KEY)
+    .hgetall(ACCOUNTS_KEY)
+    .exec();
+
+  if (!results) {
+    throw new Error("Failed to read the accounts snapshot");
+  }
+  const [[seqError, seq], [slotError, contextSlot], [accountsError, accounts]] =
+    results;
+  if (seqError || slotError || accountsError) {
+    throw seqError || slotError || accountsError;
+  }
+
+  const accountInfosMap = new Map<string, AccountInfo<string[]>>();
+  Object.entries(accounts as Record<string, string>).forEach(([key, value]) => {
+    accountInfosMap.set(key, JSON.parse(value));
+  });
+
+  return {
+    seq: Number(seq ?? 0),
+    contextSlot: Number(contextSlot ?? 0),
+    accountInfosMap,
+  };
+}
+
+/**
+ * Block until updates after `afterSeq` are published, returns an empty array on timeout.
+ */
+export async function readAccountUpdates(
+  redis: Redis,
+  afterSeq: number,
+  blockMs: number
+): Promise<AccountUpdate[]> {
+  const result = await redis.xread(
+    "BLOCK",
+    blockMs,
+    "STREAMS",
+    ACCOUNT_UPDATES_STREAM_KEY,
+    `${afterSeq}-0`
+  );
+
+  if (!result) return [];
+
+  return result.flatMap(([, entries]) =>
+    entries.map(([id, fields]) => {
+      const values: Record<string, string> = {};
+      for (let i = 0; i < fields.length; i += 2) {
+        values[fields[i]] = fields[i + 1];
+      }
+
+      return {
+        seq: Number(id.split("-")[0]),
+        contextSlot: Number(values.contextSlot),
+        type: values.type as AccountUpdate["type"],
+        accountInfosMap: new Map<string, AccountInfo<string[]>>(
+          JSON.parse(values.accounts)
+        ),
+      };
+    })
+  );
+}
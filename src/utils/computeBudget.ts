@@ -0,0 +1,208 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  getInstructions,
+  getWritableAccounts,
+  isComputeBudgetInstruction,
+  updateInstructions,
+} from "./transaction";
+
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+// simulations are not exact, the pools can move before the transaction lands
+const COMPUTE_UNIT_MARGIN = 1.2;
+// use a fee that would have landed in most of the recent slots
+const PRIORITIZATION_FEE_PERCENTILE = 0.75;
+export const DEFAULT_MAX_PRIORITIZATION_FEE_LAMPORTS = 1_000_000;
+
+export type ComputeBudget = {
+  computeUnitLimit: number;
+  computeUnitPriceMicroLamports: number;
+  prioritizationFeeLamports: number;
+};
+
+/**
+ * Simulate the transaction and add a margin to the units consumed, falls back to the max limit if the simulation fails.
+ * A copy raised to the max limit is simulated, under the default limit a large route would run out of units.
+ */
+export async function estimateComputeUnitLimit(
+  connection: Connection,
+  transaction: Transaction | VersionedTransaction,
+  addressLookupTableAccounts: AddressLookupTableAccount[]
+) {
+  try {
+    return await simulateComputeUnitLimit(
+      connection,
+      transaction,
+      addressLookupTableAccounts
+    );
+  } catch (e) {
+    // the rpc failed, or the transaction is over the packet size and cannot be serialized to be simulated
+    return MAX_COMPUTE_UNIT_LIMIT;
+  }
+}
+
+async function simulateComputeUnitLimit(
+  connection: Connection,
+  transaction: Transaction | VersionedTransaction,
+  addressLookupTableAccounts: AddressLookupTableAccount[]
+) {
+  const [payerKey, recentBlockhash] =
+    transaction instanceof Transaction
+      ? [transaction.feePayer!, transaction.recentBlockhash!]
+      : [
+          transaction.message.staticAccountKeys[0],
+          transaction.message.recentBlockhash,
+        ];
+  const versionedTransaction = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey,
+      recentBlockhash,
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({
+          units: MAX_COMPUTE_UNIT_LIMIT,
+        }),
+        ...getInstructions(transaction, addressLookupTableAccounts).filter(
+          (instruction) => !isComputeBudgetInstruction(instruction)
+        ),
+      ],
+    }).compileToV0Message(addressLookupTableAccounts)
+  );
+
+  const { value } = await connection.simulateTransaction(versionedTransaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+  });
+
+  if (value.err || !value.unitsConsumed) {
+    return MAX_COMPUTE_UNIT_LIMIT;
+  }
+  return Math.min(
+    Math.ceil(value.unitsConsumed * COMPUTE_UNIT_MARGIN),
+    MAX_COMPUTE_UNIT_LIMIT
+  );
+}
+
+/**
+ * A percentile of the recent prioritization fees paid to write lock the accounts, in micro lamports per compute unit.
+ * Falls back to no priority fee if the rpc fails or does not have the method.
+ */
+export async function estimateComputeUnitPrice(
+  connection: Connection,
+  accounts: PublicKey[]
+) {
+  try {
+    return await fetchComputeUnitPrice(connection, accounts);
+  } catch (e) {
+    console.error(
+      `Failed to fetch the recent prioritization fees, reason ${e}`
+    );
+    return 0;
+  }
+}
+
+async function fetchComputeUnitPrice(
+  connection: Connection,
+  accounts: PublicKey[]
+) {
+  // web3.js does not expose getRecentPrioritizationFees yet
+  // @ts-ignore
+  const { result, error } = await connection._rpcRequest(
+    "getRecentPrioritizationFees",
+    [accounts.slice(0, 128).map((account) => account.toBase58())]
+  );
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const fees = (result as { slot: number; prioritizationFee: number }[])
+    .map(({ prioritizationFee }) => prioritizationFee)
+    .sort((a, b) => a - b);
+  if (fees.length === 0) return 0;
+
+  return fees[
+    Math.min(
+      Math.floor(fees.length * PRIORITIZATION_FEE_PERCENTILE),
+      fees.length - 1
+    )
+  ];
+}
+
+/**
+ * Pick the compute unit limit and price of a transaction, then replace its compute budget instructions.
+ * `ammAccounts` narrows the write locks used to price the fee to the pools the route goes through.
+ */
+export async function setAutoComputeBudget({
+  connection,
+  transaction,
+  addressLookupTableAccounts,
+  ammAccounts,
+  maxPrioritizationFeeLamports = DEFAULT_MAX_PRIORITIZATION_FEE_LAMPORTS,
+}: {
+  connection: Connection;
+  transaction: Transaction | VersionedTransaction;
+  addressLookupTableAccounts: AddressLookupTableAccount[];
+  ammAccounts: Set<string>;
+  maxPrioritizationFeeLamports?: number;
+}): Promise<ComputeBudget> {
+  const writableAccounts = getWritableAccounts(
+    transaction,
+    addressLookupTableAccounts
+  );
+  const writableAmmAccounts = writableAccounts.filter((account) =>
+    ammAccounts.has(account.toBase58())
+  );
+
+  const [computeUnitLimit, estimatedComputeUnitPrice] = await Promise.all([
+    estimateComputeUnitLimit(
+      connection,
+      transaction,
+      addressLookupTableAccounts
+    ),
+    estimateComputeUnitPrice(
+      connection,
+      writableAmmAccounts.length > 0 ? writableAmmAccounts : writableAccounts
+    ),
+  ]);
+
+  // fee = units * price / 1e6, the price is lowered to fit in the budget
+  const maxComputeUnitPrice = Math.floor(
+    (maxPrioritizationFeeLamports * 1_000_000) / computeUnitLimit
+  );
+  const computeUnitPriceMicroLamports = Math.min(
+    estimatedComputeUnitPrice,
+    maxComputeUnitPrice
+  );
+
+  updateInstructions(
+    transaction,
+    addressLookupTableAccounts,
+    (instructions) => [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }),
+      ...(computeUnitPriceMicroLamports > 0
+        ? [
+            ComputeBudgetProgram.setComputeUnitPrice({
+              microLamports: computeUnitPriceMicroLamports,
+            }),
+          ]
+        : []),
+      ...instructions.filter(
+        ({ programId }) => !programId.equals(ComputeBudgetProgram.programId)
+      ),
+    ]
+  );
+
+  return {
+    computeUnitLimit,
+    computeUnitPriceMicroLamports,
+    prioritizationFeeLamports: Math.ceil(
+      (computeUnitLimit * computeUnitPriceMicroLamports) / 1_000_000
+    ),
+  };
+}
@@ -0,0 +1,67 @@
+import { RouteInfo, SplitTradeAmm } from "@jup-ag/core";
+import type { Amm } from "@jup-ag/core/dist/lib/amm";
+
+export type DexFilter = {
+  includeDexes?: Set<string>;
+  excludeDexes?: Set<string>;
+  excludeAmmIds?: Set<string>;
+};
+
+// comma separated query values, blanks are ignored
+export function parseList(value: string | undefined) {
+  if (value === undefined) return undefined;
+  const items = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length ? new Set(items) : undefined;
+}
+
+export function isDexFilterEmpty({
+  includeDexes,
+  excludeDexes,
+  excludeAmmIds,
+}: DexFilter) {
+  return !includeDexes && !excludeDexes && !excludeAmmIds;
+}
+
+// a split trade swaps through both of its amms
+export function getLegAmms(amm: Amm): Amm[] {
+  return amm instanceof SplitTradeAmm ? [amm.firstAmm, amm.secondAmm] : [amm];
+}
+
+/**
+ * The amms of the route that actually swap.
+ */
+export function getUnderlyingAmms(route: RouteInfo): Amm[] {
+  return route.marketInfos.flatMap(({ amm }) => getLegAmms(amm));
+}
+
+/**
+ * Every amm of the route must be of an included dex, of no excluded dex and not excluded by id.
+ */
+export function matchesDexFilter(
+  route: RouteInfo,
+  { includeDexes, excludeDexes, excludeAmmIds }: DexFilter
+) {
+  return getUnderlyingAmms(route).every(
+    ({ id, label }) =>
+      (!includeDexes || includeDexes.has(label)) &&
+      !excludeDexes?.has(label) &&
+      !excludeAmmIds?.has(id)
+  );
+}
+
+/**
+ * The number of loaded amms per dex label, sorted by label.
+ */
+export function countAmmsByDex(amms: Iterable<Amm>) {
+  const counts = new Map<string, number>();
+  for (const amm of amms) {
+    if (amm instanceof SplitTradeAmm) continue;
+    counts.set(amm.label, (counts.get(amm.label) ?? 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, ammCount]) => ({ label, ammCount }));
+}
@@ -0,0 +1,270 @@
+import { RouteInfo, SplitTradeAmm, SwapMode } from "@jup-ag/core";
+import type { Amm } from "@jup-ag/core/dist/lib/amm";
+import { PublicKey } from "@solana/web3.js";
+import Decimal from "decimal.js";
+import JSBI from "jsbi";
+import { getSplitTradePortions } from "./route";
+
+// the split trade candidates are tried by steps of 10%
+const SPLIT_PORTION_STEP = 10;
+
+type Fee = RouteInfo["marketInfos"][number]["lpFee"];
+
+function toUiAmount(amount: JSBI | Decimal, decimals: number) {
+  return new Decimal(amount.toString()).div(new Decimal(10).pow(decimals));
+}
+
+/**
+ * Explain routes with token decimals, decimals must have every mint of the routes.
+ */
+export function createRouteExplainer(decimalsMap: Map<string, number>) {
+  function getDecimals(mint: PublicKey | string) {
+    const decimals = decimalsMap.get(mint.toString());
+    if (decimals === undefined) {
+      throw new Error(`Decimals of ${mint.toString()} not found`);
+    }
+    return decimals;
+  }
+
+  function explainSplitTrade(
+    amm: SplitTradeAmm,
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    inAmount: JSBI,
+    swapMode: SwapMode
+  ) {
+    const outputDecimals = getDecimals(outputMint);
+    const quoteLeg = (legAmm: Amm, portion: number) => {
+      const amount = JSBI.divide(
+        JSBI.multiply(inAmount, JSBI.BigInt(portion)),
+        JSBI.BigInt(100)
+      );
+      if (portion === 0 || JSBI.equal(amount, JSBI.BigInt(0))) {
+        return { inAmount: amount, outAmount: JSBI.BigInt(0) };
+      }
+      const quote = legAmm.getQuote({
+        sourceMint: inputMint,
+        destinationMint: outputMint,
+        amount,
+        swapMode: SwapMode.ExactIn,
+      });
+      return { inAmount: amount, outAmount: quote.outAmount };
+    };
+
+    const portions = getSplitTradePortions(amm);
+    const legs = [amm.firstAmm, amm.secondAmm].map((legAmm, idx) => {
+      const leg = quoteLeg(legAmm, portions[idx]);
+      return {
+        id: legAmm.id,
+        label: legAmm.label,
+        portion: portions[idx],
+        inAmount: leg.inAmount.toString(),
+        outAmount: leg.outAmount.toString(),
+        uiOutAmount: toUiAmount(leg.outAmount, outputDecimals).toString(),
+      };
+    });
+
+    // how much every other split would have given, the chosen one should be the best
+    const candidates =
+      swapMode === SwapMode.ExactIn
+        ? Array.from(
+            { length: 100 / SPLIT_PORTION_STEP + 1 },
+            (_, idx) => idx * SPLIT_PORTION_STEP
+          ).map((portion1) => {
+            const outAmount = JSBI.add(
+              quoteLeg(amm.firstAmm, portion1).outAmount,
+              quoteLeg(amm.secondAmm, 100 - portion1).outAmount
+            );
+            return {
+              portions: [portion1, 100 - portion1],
+              outAmount: outAmount.toString(),
+              uiOutAmount: toUiAmount(outAmount, outputDecimals).toString(),
+            };
+          })
+        : [];
+
+    return { portions, legs, candidates };
+  }
+
+  return function explainRoute({
+    marketInfos,
+    inAmount,
+    outAmount,
+    otherAmountThreshold,
+    priceImpactPct,
+    slippageBps,
+    swapMode,
+  }: RouteInfo) {
+    const hops = marketInfos.map(
+      ({
+        amm,
+        inputMint,
+        outputMint,
+        inAmount,
+        outAmount,
+        priceImpactPct,
+        lpFee,
+        platformFee,
+      }) => {
+        const inputDecimals = getDecimals(inputMint);
+        const outputDecimals = getDecimals(outputMint);
+        const uiInAmount = toUiAmount(inAmount, inputDecimals);
+        const uiOutAmount = toUiAmount(outAmount, outputDecimals);
+
+        // add the fees back to get the price of the pool alone
+        const uiLpFee = JSBI.equal(lpFee.amount, JSBI.BigInt(0))
+          ? new Decimal(0)
+          : toUiAmount(lpFee.amount, getDecimals(lpFee.mint));
+        const grossIn =
+          lpFee.mint === inputMint.toBase58()
+            ? uiInAmount.sub(uiLpFee)
+            : uiInAmount;
+        const grossOut =
+          lpFee.mint === outputMint.toBase58()
+            ? uiOutAmount.add(uiLpFee)
+            : uiOutAmount;
+        const effectivePrice = uiInAmount.isZero()
+          ? new Decimal(0)
+          : uiOutAmount.div(uiInAmount);
+        // the price impact is the distance between the mid price and the price of the pool alone
+        const midPrice = grossIn.isZero()
+          ? new Decimal(0)
+          : grossOut.div(grossIn).div(new Decimal(1).sub(priceImpactPct));
+
+        return {
+          id: amm.id,
+          label: amm.label,
+          inputMint: inputMint.toBase58(),
+          outputMint: outputMint.toBase58(),
+          inAmount: inAmount.toString(),
+          outAmount: outAmount.toString(),
+          uiInAmount,
+          uiOutAmount,
+          effectivePrice,
+          midPrice,
+          priceImpactPct,
+          lpFee,
+          platformFee,
+          splitTrade:
+            amm instanceof SplitTradeAmm
+              ? explainSplitTrade(
+                  amm,
+                  inputMint,
+                  outputMint,
+                  inAmount,
+                  swapMode
+                )
+              : undefined,
+        };
+      }
+    );
+
+    // mid prices from the route input token to the input token of each hop, and of the whole route
+    const midPricesFromInput = hops.reduce(
+      (prices, { midPrice }) => [
+        ...prices,
+        prices[prices.length - 1].mul(midPrice),
+      ],
+      [new Decimal(1)]
+    );
+    const routeMidPrice = midPricesFromInput[hops.length];
+
+    // the fee valued in the input and output tokens of the hop, at the mid price
+    const explainFee = ({ mint, pct, amount }: Fee, hopIdx: number) => {
+      const { inputMint, midPrice } = hops[hopIdx];
+      const uiAmount = JSBI.equal(amount, JSBI.BigInt(0))
+        ? new Decimal(0)
+        : toUiAmount(amount, getDecimals(mint));
+      const inInputToken =
+        mint === inputMint
+          ? uiAmount
+          : midPrice.isZero()
+          ? new Decimal(0)
+          : uiAmount.div(midPrice);
+
+      return {
+        mint,
+        pct,
+        amount: amount.toString(),
+        inInputToken,
+        inOutputToken: inInputToken.mul(midPrice),
+      };
+    };
+
+    // the fees of every hop valued in the route input token
+    let routeFeesInInputToken = new Decimal(0);
+    const explainedHops = hops.map(
+      (
+        {
+          lpFee,
+          platformFee,
+          uiInAmount,
+          uiOutAmount,
+          effectivePrice,
+          midPrice,
+          ...hop
+        },
+        idx
+      ) => {
+        const [explainedLpFee, explainedPlatformFee] = [lpFee, platformFee].map(
+          (fee) => {
+            const { inInputToken, inOutputToken, ...explainedFee } = explainFee(
+              fee,
+              idx
+            );
+            if (!midPricesFromInput[idx].isZero()) {
+              routeFeesInInputToken = routeFeesInInputToken.add(
+                inInputToken.div(midPricesFromInput[idx])
+              );
+            }
+            return {
+              ...explainedFee,
+              inInputToken: inInputToken.toString(),
+              inOutputToken: inOutputToken.toString(),
+            };
+          }
+        );
+
+        return {
+          ...hop,
+          uiInAmount: uiInAmount.toString(),
+          uiOutAmount: uiOutAmount.toString(),
+          effectivePrice: effectivePrice.toNumber(),
+          midPrice: midPrice.toNumber(),
+          lpFee: explainedLpFee,
+          platformFee: explainedPlatformFee,
+        };
+      }
+    );
+
+    const inputDecimals = getDecimals(marketInfos[0].inputMint);
+    const outputDecimals = getDecimals(
+      marketInfos[marketInfos.length - 1].outputMint
+    );
+    const uiInAmount = toUiAmount(inAmount, inputDecimals);
+    const uiOutAmount = toUiAmount(outAmount, outputDecimals);
+
+    return {
+      swapMode,
+      slippageBps,
+      inAmount: inAmount.toString(),
+      outAmount: outAmount.toString(),
+      uiInAmount: uiInAmount.toString(),
+      uiOutAmount: uiOutAmount.toString(),
+      uiOtherAmountThreshold: toUiAmount(
+        otherAmountThreshold,
+        swapMode === SwapMode.ExactIn ? outputDecimals : inputDecimals
+      ).toString(),
+      effectivePrice: uiInAmount.isZero()
+        ? 0
+        : uiOutAmount.div(uiInAmount).toNumber(),
+      midPrice: routeMidPrice.toNumber(),
+      priceImpactPct,
+      fees: {
+        inInputToken: routeFeesInInputToken.toString(),
+        inOutputToken: routeFeesInInputToken.mul(routeMidPrice).toString(),
+      },
+      hops: explainedHops,
+    };
+  };
+}
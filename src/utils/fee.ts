@@ -0,0 +1,60 @@
+import { ASSOCIATED_TOKEN_PROGRAM_ID, Token } from "@solana/spl-token";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { getMintTokenProgram } from "./tokens";
+
+// the program keeps the platform fee bps in a u8
+export const MAX_FEE_BPS = 255;
+
+// a token account starts with its mint
+const TOKEN_ACCOUNT_MINT_OFFSET = 0;
+const TOKEN_ACCOUNT_MIN_SIZE = 165;
+
+export type FeeAccountStatus = "valid" | "missing" | "invalid";
+
+/**
+ * The associated token account of the fee wallet for the mint, with the program owning the mint.
+ */
+export async function getFeeAccount(
+  connection: Connection,
+  feeWallet: PublicKey,
+  mint: PublicKey
+) {
+  const tokenProgramId = await getMintTokenProgram(connection, mint);
+  return Token.getAssociatedTokenAddress(
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+    tokenProgramId,
+    mint,
+    feeWallet,
+    // @ts-ignore
+    true
+  );
+}
+
+/**
+ * Check the fee account exists and is a token account of the mint, the fee transfer fails on-chain otherwise.
+ */
+export async function getFeeAccountStatus(
+  connection: Connection,
+  feeAccount: PublicKey,
+  mint: PublicKey
+): Promise<FeeAccountStatus> {
+  const [accountInfo, tokenProgramId] = await Promise.all([
+    connection.getAccountInfo(feeAccount),
+    getMintTokenProgram(connection, mint),
+  ]);
+  if (!accountInfo) return "missing";
+
+  if (
+    !accountInfo.owner.equals(tokenProgramId) ||
+    accountInfo.data.length < TOKEN_ACCOUNT_MIN_SIZE
+  ) {
+    return "invalid";
+  }
+  const accountMint = new PublicKey(
+    accountInfo.data.subarray(
+      TOKEN_ACCOUNT_MINT_OFFSET,
+      TOKEN_ACCOUNT_MINT_OFFSET + 32
+    )
+  );
+  return accountMint.equals(mint) ? "valid" : "invalid";
+}
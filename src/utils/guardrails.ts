@@ -0,0 +1,150 @@
+import { RouteInfo } from "@jup-ag/core";
+import Decimal from "decimal.js";
+import JSBI from "jsbi";
+
+// a limit of 10000 bps never rejects
+export const MAX_GUARDRAIL_BPS = 10_000;
+
+export function getGuardrailsConfig() {
+  return {
+    maxPriceImpactBps: Number(
+      process.env.GUARDRAIL_MAX_PRICE_IMPACT_BPS || 1_000
+    ),
+    rejectNotEnoughLiquidity:
+      process.env.GUARDRAIL_NOT_ENOUGH_LIQUIDITY !== "allow",
+    maxPriceDeviationBps: Number(
+      process.env.GUARDRAIL_MAX_PRICE_DEVIATION_BPS || 500
+    ),
+    // the reference price is quoted for the amount divided by this
+    referenceAmountDivisor: Number(
+      process.env.GUARDRAIL_REFERENCE_AMOUNT_DIVISOR || 1_000
+    ),
+  };
+}
+
+export type GuardrailOverrides = {
+  maxPriceImpactBps?: number;
+  maxPriceDeviationBps?: number;
+  allowNotEnoughLiquidity?: boolean;
+};
+
+export type GuardrailLimits = {
+  maxPriceImpactBps: number;
+  rejectNotEnoughLiquidity: boolean;
+  maxPriceDeviationBps: number;
+};
+
+export type GuardrailViolation = {
+  guardrail: "priceImpact" | "notEnoughLiquidity" | "priceDeviation";
+  message: string;
+  value?: number;
+  limit?: number;
+  // the request parameter that accepts the route anyway
+  override: keyof GuardrailOverrides;
+};
+
+/**
+ * The limits of the request, the overrides replace the configured ones.
+ */
+export function getGuardrailLimits(
+  {
+    maxPriceImpactBps,
+    maxPriceDeviationBps,
+    allowNotEnoughLiquidity,
+  }: GuardrailOverrides,
+  config = getGuardrailsConfig()
+): GuardrailLimits {
+  return {
+    maxPriceImpactBps: maxPriceImpactBps ?? config.maxPriceImpactBps,
+    rejectNotEnoughLiquidity:
+      allowNotEnoughLiquidity === undefined
+        ? config.rejectNotEnoughLiquidity
+        : !allowNotEnoughLiquidity,
+    maxPriceDeviationBps: maxPriceDeviationBps ?? config.maxPriceDeviationBps,
+  };
+}
+
+export function getReferenceAmount(
+  amount: JSBI,
+  { referenceAmountDivisor } = getGuardrailsConfig()
+) {
+  const referenceAmount = JSBI.divide(
+    amount,
+    JSBI.BigInt(referenceAmountDivisor)
+  );
+  return JSBI.greaterThan(referenceAmount, JSBI.BigInt(0))
+    ? referenceAmount
+    : JSBI.BigInt(1);
+}
+
+function getRate({ inAmount, outAmount }: RouteInfo) {
+  return JSBI.equal(inAmount, JSBI.BigInt(0))
+    ? new Decimal(0)
+    : new Decimal(outAmount.toString()).div(inAmount.toString());
+}
+
+/**
+ * How much less output per input the route gives than the reference route, in bps.
+ */
+export function getPriceDeviationBps(
+  route: RouteInfo,
+  referenceRoute: RouteInfo
+) {
+  const referenceRate = getRate(referenceRoute);
+  if (referenceRate.isZero()) return 0;
+  return referenceRate
+    .sub(getRate(route))
+    .div(referenceRate)
+    .mul(10_000)
+    .round()
+    .toNumber();
+}
+
+/**
+ * The limits the route breaks, none when it is safe to swap.
+ * The price deviation is only checked with a reference route, a quote of a small amount of the same pair.
+ */
+export function checkGuardrails(
+  route: RouteInfo,
+  limits: GuardrailLimits,
+  referenceRoute?: RouteInfo
+): GuardrailViolation[] {
+  const violations: GuardrailViolation[] = [];
+
+  const priceImpactBps = Math.round(route.priceImpactPct * 10_000);
+  if (priceImpactBps > limits.maxPriceImpactBps) {
+    violations.push({
+      guardrail: "priceImpact",
+      message: `Price impact of ${priceImpactBps} bps is above ${limits.maxPriceImpactBps} bps`,
+      value: priceImpactBps,
+      limit: limits.maxPriceImpactBps,
+      override: "maxPriceImpactBps",
+    });
+  }
+
+  if (
+    limits.rejectNotEnoughLiquidity &&
+    route.marketInfos.some(({ notEnoughLiquidity }) => notEnoughLiquidity)
+  ) {
+    violations.push({
+      guardrail: "notEnoughLiquidity",
+      message: "A market of the route does not have enough liquidity",
+      override: "allowNotEnoughLiquidity",
+    });
+  }
+
+  if (referenceRoute && limits.maxPriceDeviationBps < MAX_GUARDRAIL_BPS) {
+    const deviationBps = getPriceDeviationBps(route, referenceRoute);
+    if (deviationBps > limits.maxPriceDeviationBps) {
+      violations.push({
+        guardrail: "priceDeviation",
+        message: `Price is ${deviationBps} bps below the reference price, above ${limits.maxPriceDeviationBps} bps`,
+        value: deviationBps,
+        limit: limits.maxPriceDeviationBps,
+        override: "maxPriceDeviationBps",
+      });
+    }
+  }
+
+  return violations;
+}
@@ -1,46 +1,69 @@
-// https://github.com/solana-labs/solana-program-library/blob/29d316e8111543cce288bc5080a54e6953af794c/token/js/src/instructions/transfer.ts
+// https://github.com/solana-labs/solana-program-library/blob/29d316e8111543cce288bc5080a54e6953af794c/token/js/src/instructions/transferChecked.ts
 import { u64 } from '@solana/buffer-layout-utils';
-import { ASSOCIATED_TOKEN_PROGRAM_ID, Token, TOKEN_PROGRAM_ID } from '@solana/spl-token';
-import { AccountMeta, PublicKey, Signer, TransactionInstruction } from '@solana/web3.js';
-import BN from 'bn.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, Token } from '@solana/spl-token';
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
 import { struct, u8 } from '@solana/buffer-layout';
+import JSBI from 'jsbi';
 
-type CreatePaymentInstructionArgs = {
+export type Payment = {
+  recipient: string;
+  // raw amount of the output token
+  amount?: string;
+  // share of the guaranteed output amount
+  bps?: number;
+};
+
+type CreatePaymentInstructionsArgs = {
   userPublicKey: PublicKey;
-  destinationWallet: PublicKey;
   outputMint: PublicKey;
-  paymentAmount: BN;
+  decimals: number;
+  tokenProgramId: PublicKey;
+  payments: Array<{ recipient: PublicKey; amount: JSBI }>;
 };
 
 export enum TokenInstruction {
-  Transfer = 3,
+  TransferChecked = 12,
+}
+
+enum AssociatedTokenInstruction {
+  CreateIdempotent = 1,
 }
 
-interface TransferInstructionData {
-  instruction: TokenInstruction.Transfer;
+interface TransferCheckedInstructionData {
+  instruction: TokenInstruction.TransferChecked;
   amount: bigint;
+  decimals: number;
 }
 
-export const transferInstructionData = struct<TransferInstructionData>([u8('instruction'), u64('amount')]);
+export const transferCheckedInstructionData = struct<TransferCheckedInstructionData>([
+  u8('instruction'),
+  u64('amount'),
+  u8('decimals'),
+]);
 
-function createTransferInstruction(
+// transferChecked is the only transfer supported by both the token and the token-2022 programs
+function createTransferCheckedInstruction(
   source: PublicKey,
+  mint: PublicKey,
   destination: PublicKey,
   owner: PublicKey,
-  amount: number | bigint,
-  programId = TOKEN_PROGRAM_ID,
+  amount: bigint,
+  decimals: number,
+  programId: PublicKey,
 ): TransactionInstruction {
   const keys = [
     { pubkey: source, isSigner: false, isWritable: true },
+    { pubkey: mint, isSigner: false, isWritable: false },
     { pubkey: destination, isSigner: false, isWritable: true },
     { pubkey: owner, isSigner: true, isWritable: false },
   ];
 
-  const data = Buffer.alloc(transferInstructionData.span);
-  transferInstructionData.encode(
+  const data = Buffer.alloc(transferCheckedInstructionData.span);
+  transferCheckedInstructionData.encode(
     {
-      instruction: TokenInstruction.Transfer,
-      amount: BigInt(amount),
+      instruction: TokenInstruction.TransferChecked,
+      amount,
+      decimals,
     },
     data,
   );
@@ -48,31 +71,91 @@ function createTransferInstruction(
   return new TransactionInstruction({ keys, programId, data });
 }
 
-export async function createPaymentInstruction({
+// does nothing when the associated token account already exists
+function createAssociatedTokenAccountIdempotentInstruction(
+  payer: PublicKey,
+  associatedToken: PublicKey,
+  owner: PublicKey,
+  mint: PublicKey,
+  programId: PublicKey,
+): TransactionInstruction {
+  const keys = [
+    { pubkey: payer, isSigner: true, isWritable: true },
+    { pubkey: associatedToken, isSigner: false, isWritable: true },
+    { pubkey: owner, isSigner: false, isWritable: false },
+    { pubkey: mint, isSigner: false, isWritable: false },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    { pubkey: programId, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({
+    keys,
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    data: Buffer.from([AssociatedTokenInstruction.CreateIdempotent]),
+  });
+}
+
+/**
+ * Resolve the amount of each payment, a bps share is taken from the amount the swap guarantees to the user.
+ */
+export function getPaymentAmounts(payments: Payment[], guaranteedAmount: JSBI): JSBI[] {
+  return payments.map(({ amount, bps }) =>
+    amount !== undefined
+      ? JSBI.BigInt(amount)
+      : JSBI.divide(JSBI.multiply(guaranteedAmount, JSBI.BigInt(bps ?? 0)), JSBI.BigInt(10_000)),
+  );
+}
+
+/**
+ * The setup instructions create the recipients token accounts, the transfers move the output out of the user token account.
+ */
+export async function createPaymentInstructions({
   userPublicKey,
-  destinationWallet,
   outputMint,
-  paymentAmount,
-}: CreatePaymentInstructionArgs) {
+  decimals,
+  tokenProgramId,
+  payments,
+}: CreatePaymentInstructionsArgs) {
   const userDestinationTokenAccount = await Token.getAssociatedTokenAddress(
     ASSOCIATED_TOKEN_PROGRAM_ID,
-    TOKEN_PROGRAM_ID,
+    tokenProgramId,
     outputMint,
     userPublicKey,
   );
-  const destinationWalletTokenAccount = await Token.getAssociatedTokenAddress(
-    ASSOCIATED_TOKEN_PROGRAM_ID,
-    TOKEN_PROGRAM_ID,
-    outputMint,
-    destinationWallet,
-    // @ts-ignore
-    true,
-  );
 
-  return createTransferInstruction(
-    userDestinationTokenAccount,
-    destinationWalletTokenAccount,
-    userPublicKey,
-    BigInt(paymentAmount.toString()),
-  );
+  const setupInstructions: TransactionInstruction[] = [];
+  const transferInstructions: TransactionInstruction[] = [];
+  for (const { recipient, amount } of payments) {
+    const recipientTokenAccount = await Token.getAssociatedTokenAddress(
+      ASSOCIATED_TOKEN_PROGRAM_ID,
+      tokenProgramId,
+      outputMint,
+      recipient,
+      // @ts-ignore
+      true,
+    );
+
+    setupInstructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(
+        userPublicKey,
+        recipientTokenAccount,
+        recipient,
+        outputMint,
+        tokenProgramId,
+      ),
+    );
+    transferInstructions.push(
+      createTransferCheckedInstruction(
+        userDestinationTokenAccount,
+        outputMint,
+        recipientTokenAccount,
+        userPublicKey,
+        BigInt(amount.toString()),
+        decimals,
+        tokenProgramId,
+      ),
+    );
+  }
+
+  return { setupInstructions, transferInstructions };
 }
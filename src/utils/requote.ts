@@ -0,0 +1,143 @@
+import { RouteInfo, SwapMode } from "@jup-ag/core";
+import JSBI from "jsbi";
+
+const BPS = JSBI.BigInt(10_000);
+
+export function getRouteDriftConfig() {
+  return {
+    // how much worse than otherAmountThreshold the fresh quote can be
+    toleranceBps: Number(process.env.ROUTE_DRIFT_TOLERANCE_BPS || 0),
+  };
+}
+
+// an amm that cannot quote its market anymore (pool drained, ticks out of range), the route cannot be swapped
+export type FailedMarket = { ammId: string; label: string; reason: string };
+
+export type RouteDrift =
+  | {
+      drifted: boolean;
+      // positive when the fresh quote is worse than the quoted one
+      driftBps: number;
+      freshInAmount: JSBI;
+      freshOutAmount: JSBI;
+    }
+  | { drifted: true; failedMarket: FailedMarket };
+
+type MarketInfo = RouteInfo["marketInfos"][number];
+
+// scale a route amount like the market amount it comes from, so the platform fee is accounted the same way
+function scale(amount: JSBI, freshAmount: JSBI, quotedAmount: JSBI) {
+  if (JSBI.equal(quotedAmount, JSBI.BigInt(0))) return amount;
+  return JSBI.divide(JSBI.multiply(amount, freshAmount), quotedAmount);
+}
+
+function getDriftBps(quotedAmount: JSBI, freshAmount: JSBI) {
+  if (JSBI.equal(quotedAmount, JSBI.BigInt(0))) return 0;
+  return (
+    JSBI.toNumber(
+      JSBI.divide(
+        JSBI.multiply(JSBI.subtract(quotedAmount, freshAmount), BPS),
+        quotedAmount
+      )
+    ) || 0
+  );
+}
+
+/**
+ * Quote every market of the route again against the current amm state and compare with the quoted amounts.
+ * ExactIn walks the markets forward from the input, ExactOut backward from the output.
+ */
+export function getRouteDrift(
+  route: RouteInfo,
+  toleranceBps = getRouteDriftConfig().toleranceBps
+): RouteDrift {
+  let failedMarket: FailedMarket | undefined;
+  const quoteMarket = (
+    { amm, inputMint, outputMint }: MarketInfo,
+    amount: JSBI
+  ) => {
+    try {
+      return amm.getQuote({
+        sourceMint: inputMint,
+        destinationMint: outputMint,
+        amount,
+        swapMode: route.swapMode,
+      });
+    } catch (e) {
+      failedMarket = {
+        ammId: amm.id,
+        label: amm.label,
+        reason: (e as Error).message,
+      };
+      throw e;
+    }
+  };
+
+  try {
+    return compareFreshQuote(route, toleranceBps, quoteMarket);
+  } catch (e) {
+    if (!failedMarket) throw e;
+    return { drifted: true, failedMarket };
+  }
+}
+
+function compareFreshQuote(
+  {
+    marketInfos,
+    swapMode,
+    inAmount,
+    outAmount,
+    otherAmountThreshold,
+  }: RouteInfo,
+  toleranceBps: number,
+  quoteMarket: (
+    marketInfo: MarketInfo,
+    amount: JSBI
+  ) => { inAmount: JSBI; outAmount: JSBI }
+): RouteDrift {
+  if (swapMode === SwapMode.ExactOut) {
+    let amount = marketInfos[marketInfos.length - 1].outAmount;
+    for (let idx = marketInfos.length - 1; idx >= 0; idx--) {
+      amount = quoteMarket(marketInfos[idx], amount).inAmount;
+    }
+    const freshInAmount = scale(inAmount, amount, marketInfos[0].inAmount);
+
+    return {
+      // the max in amount is exceeded by more than the tolerance
+      drifted: JSBI.greaterThan(
+        JSBI.multiply(freshInAmount, BPS),
+        JSBI.multiply(
+          otherAmountThreshold,
+          JSBI.add(BPS, JSBI.BigInt(toleranceBps))
+        )
+      ),
+      driftBps: -getDriftBps(inAmount, freshInAmount),
+      freshInAmount,
+      freshOutAmount: outAmount,
+    };
+  }
+
+  let amount = marketInfos[0].inAmount;
+  marketInfos.forEach((marketInfo) => {
+    amount = quoteMarket(marketInfo, amount).outAmount;
+  });
+  const freshOutAmount = scale(
+    outAmount,
+    amount,
+    marketInfos[marketInfos.length - 1].outAmount
+  );
+
+  return {
+    // the min out amount is missed by more than the tolerance
+    drifted: JSBI.lessThan(
+      JSBI.multiply(freshOutAmount, BPS),
+      JSBI.multiply(
+        otherAmountThreshold,
+        JSBI.subtract(BPS, JSBI.BigInt(toleranceBps))
+      )
+    ),
+    driftBps: getDriftBps(outAmount, freshOutAmount),
+    freshInAmount: inAmount,
+    freshOutAmount,
+  };
+}
@@ -0,0 +1,102 @@
+import {
+  Amm,
+  RouteInfo,
+  SplitTradeAmm,
+  TransactionFeeInfo,
+} from "@jup-ag/core";
+import { AutoSlippage } from "./slippage";
+
+export type RouteStaleness = {
+  stale: boolean;
+  // per market, the slot of the oldest amm update
+  lastUpdatedSlots: Array<number | undefined>;
+};
+
+/**
+ * The ids of the underlying amms, a split trade is made of two amms.
+ */
+export function getAmmIds(amm: Amm): string[] {
+  if (amm instanceof SplitTradeAmm) {
+    return [amm.firstAmm.id, amm.secondAmm.id];
+  }
+  return [amm.id];
+}
+
+/**
+ * The percentages of the input a split trade sends to its first and second amm.
+ * They are private to SplitTradeAmm, read as of @jup-ag/core 4.0.0-beta.17, check them again on upgrade.
+ */
+export function getSplitTradePortions(amm: SplitTradeAmm): [number, number] {
+  return [amm["portion1"], amm["portion2"]];
+}
+
+/**
+ * Serialize a route into the `Route` schema, JSBI and PublicKey become strings.
+ */
+export function serializeRouteInfo(
+  {
+    inAmount,
+    outAmount,
+    marketInfos,
+    amount,
+    otherAmountThreshold,
+    swapMode,
+    priceImpactPct,
+    slippageBps,
+  }: RouteInfo,
+  fees?: TransactionFeeInfo,
+  staleness?: RouteStaleness,
+  autoSlippage?: AutoSlippage
+) {
+  return {
+    inAmount: inAmount.toString(),
+    outAmount: outAmount.toString(),
+    amount: amount.toString(),
+    otherAmountThreshold: otherAmountThreshold.toString(),
+    swapMode,
+    priceImpactPct,
+    slippageBps,
+    marketInfos: marketInfos.map(
+      (
+        {
+          amm,
+          inputMint,
+          outputMint,
+          inAmount,
+          outAmount,
+          lpFee,
+          platformFee,
+          minInAmount,
+          minOutAmount,
+          ...info
+        },
+        idx
+      ) => ({
+        id: amm.id,
+        label: amm.label,
+        inputMint: inputMint.toString(),
+        outputMint: outputMint.toString(),
+        inAmount: inAmount.toString(),
+        outAmount: outAmount.toString(),
+        ...(minInAmount &&
+          minOutAmount && {
+            minInAmount: minInAmount.toString(),
+            minOutAmount: minOutAmount.toString(),
+          }),
+        lpFee: {
+          ...lpFee,
+          amount: lpFee.amount.toString(),
+        },
+        platformFee: {
+          ...platformFee,
+          amount: platformFee.amount.toString(),
+        },
+        ...info,
+        lastUpdatedSlot: staleness?.lastUpdatedSlots[idx],
+      })
+    ),
+    fees,
+    stale: staleness?.stale,
+    autoSlippage,
+  };
+}
@@ -0,0 +1,109 @@
+import { RouteInfo, SplitTradeAmm, SwapMode } from "@jup-ag/core";
+import type { Amm } from "@jup-ag/core/dist/lib/amm";
+import { PublicKey } from "@solana/web3.js";
+import JSBI from "jsbi";
+import { getUnderlyingAmms } from "./dexFilter";
+
+export const RANK_BY = [
+  "outAmount",
+  "fewestHops",
+  "lowestPriceImpact",
+  "fewestAccounts",
+  "lowestCompute",
+] as const;
+export type RankBy = (typeof RANK_BY)[number];
+
+export const SPLIT_TRADES = ["allow", "force", "forbid"] as const;
+export type SplitTrades = (typeof SPLIT_TRADES)[number];
+
+// rough compute units of a swap, only used to rank routes against each other
+const DEFAULT_SWAP_COMPUTE_UNITS = 40_000;
+const SWAP_COMPUTE_UNITS: Partial<Record<Amm["label"], number>> = {
+  // concentrated liquidity pools cross ticks
+  "Orca (Whirlpools)": 80_000,
+  "Raydium CLMM": 80_000,
+  Crema: 80_000,
+  Cykura: 80_000,
+  Invariant: 80_000,
+  // order books walk their orders
+  Serum: 100_000,
+  Openbook: 100_000,
+  Phoenix: 60_000,
+};
+
+export function isSplitTradeRoute({ marketInfos }: RouteInfo) {
+  return marketInfos.some(({ amm }) => amm instanceof SplitTradeAmm);
+}
+
+export function estimateRouteComputeUnits(route: RouteInfo) {
+  return getUnderlyingAmms(route).reduce(
+    (total, { label }) =>
+      total + (SWAP_COMPUTE_UNITS[label] ?? DEFAULT_SWAP_COMPUTE_UNITS),
+    0
+  );
+}
+
+/**
+ * The distinct accounts the swaps of the route touch, the user accounts are left out as they are the same for every route.
+ */
+export function countRouteAccounts({ marketInfos, swapMode }: RouteInfo) {
+  const accounts = new Set<string>();
+  marketInfos.forEach(({ amm, inputMint, outputMint, inAmount }) => {
+    try {
+      const [, accountMetas] = amm.getSwapLegAndAccounts({
+        sourceMint: inputMint,
+        destinationMint: outputMint,
+        userSourceTokenAccount: PublicKey.default,
+        userDestinationTokenAccount: PublicKey.default,
+        userTransferAuthority: PublicKey.default,
+        amount: inAmount,
+        swapMode,
+      });
+      accountMetas.forEach(({ pubkey }) => accounts.add(pubkey.toBase58()));
+    } catch (e) {
+      // some amms need more than the swap params, like serum open orders
+      amm
+        .getAccountsForUpdate()
+        .forEach((account) => accounts.add(account.toBase58()));
+    }
+  });
+  accounts.delete(PublicKey.default.toBase58());
+  return accounts.size;
+}
+
+function compareOutAmount(a: RouteInfo, b: RouteInfo) {
+  if (a.swapMode === SwapMode.ExactOut) {
+    return JSBI.lessThan(a.inAmount, b.inAmount)
+      ? -1
+      : JSBI.greaterThan(a.inAmount, b.inAmount)
+      ? 1
+      : 0;
+  }
+  return JSBI.greaterThan(a.outAmount, b.outAmount)
+    ? -1
+    : JSBI.lessThan(a.outAmount, b.outAmount)
+    ? 1
+    : 0;
+}
+
+/**
+ * Sort the routes by the criteria, ties keep the best output first.
+ */
+export function rankRoutes(routes: RouteInfo[], rankBy: RankBy): RouteInfo[] {
+  const getScore: Record<RankBy, ((route: RouteInfo) => number) | undefined> = {
+    outAmount: undefined,
+    fewestHops: ({ marketInfos }) => marketInfos.length,
+    lowestPriceImpact: ({ priceImpactPct }) => priceImpactPct,
+    fewestAccounts: countRouteAccounts,
+    lowestCompute: estimateRouteComputeUnits,
+  };
+  const score = getScore[rankBy];
+  if (!score) {
+    return [...routes].sort(compareOutAmount);
+  }
+
+  const scores = new Map(routes.map((route) => [route, score(route)]));
+  return [...routes].sort(
+    (a, b) => scores.get(a)! - scores.get(b)! || compareOutAmount(a, b)
+  );
+}
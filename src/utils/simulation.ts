@@ -0,0 +1,165 @@
+import { JUPITER_ERRORS, WRAPPED_SOL_MINT } from "@jup-ag/core";
+import {
+  AccountInfo,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionError,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { ASSOCIATED_TOKEN_PROGRAM_ID, Token } from "@solana/spl-token";
+import { getMintTokenProgram } from "./tokens";
+
+// offset of the amount in a token account, after the mint and the owner
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+
+export type BalanceChange = {
+  mint: string;
+  account: string;
+  preAmount: string;
+  postAmount: string;
+  change: string;
+};
+
+export type SimulationError = {
+  raw: TransactionError;
+  instructionIndex?: number;
+  code?: number;
+  name?: string;
+  message?: string;
+};
+
+export type SimulationResult = {
+  unitsConsumed?: number;
+  logs: string[];
+  error: SimulationError | null;
+  balanceChanges: BalanceChange[];
+};
+
+/**
+ * Turn `{ InstructionError: [index, { Custom: code }] }` into the jupiter program error when it is one.
+ */
+export function parseSimulationError(
+  err: TransactionError | null
+): SimulationError | null {
+  if (!err) return null;
+
+  const instructionError =
+    typeof err === "object" && "InstructionError" in err
+      ? (err as { InstructionError: [number, unknown] }).InstructionError
+      : undefined;
+  if (!instructionError) {
+    return { raw: err };
+  }
+
+  const [instructionIndex, detail] = instructionError;
+  const code =
+    typeof detail === "object" && detail && "Custom" in detail
+      ? Number((detail as { Custom: number }).Custom)
+      : undefined;
+  const jupiterError =
+    code !== undefined
+      ? Object.values(JUPITER_ERRORS).find((error) => error.code === code)
+      : undefined;
+
+  return {
+    raw: err,
+    instructionIndex,
+    code,
+    name:
+      jupiterError?.name ?? (typeof detail === "string" ? detail : undefined),
+    message: jupiterError?.msg,
+  };
+}
+
+function getAmount(
+  mint: PublicKey,
+  accountInfo: Pick<AccountInfo<Buffer>, "lamports" | "data"> | null
+): bigint {
+  if (!accountInfo) return BigInt(0);
+  // native SOL is tracked on the wallet itself
+  if (mint.equals(WRAPPED_SOL_MINT)) return BigInt(accountInfo.lamports);
+  if (accountInfo.data.length < TOKEN_ACCOUNT_AMOUNT_OFFSET + 8) {
+    return BigInt(0);
+  }
+  return accountInfo.data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET);
+}
+
+/**
+ * Simulate an unsigned swap transaction and diff the user's balances of the given mints.
+ */
+export async function simulateSwapTransaction({
+  connection,
+  transaction,
+  userPublicKey,
+  mints,
+}: {
+  connection: Connection;
+  transaction: Transaction | VersionedTransaction;
+  userPublicKey: PublicKey;
+  mints: PublicKey[];
+}): Promise<SimulationResult> {
+  const versionedTransaction =
+    transaction instanceof Transaction
+      ? new VersionedTransaction(transaction.compileMessage())
+      : transaction;
+
+  const accounts = await Promise.all(
+    mints.map(async (mint) => ({
+      mint,
+      address: mint.equals(WRAPPED_SOL_MINT)
+        ? userPublicKey
+        : await Token.getAssociatedTokenAddress(
+            ASSOCIATED_TOKEN_PROGRAM_ID,
+            await getMintTokenProgram(connection, mint),
+            mint,
+            userPublicKey
+          ),
+    }))
+  );
+  const addresses = accounts.map(({ address }) => address);
+
+  const [preAccountInfos, { value: simulation }] = await Promise.all([
+    connection.getMultipleAccountsInfo(addresses),
+    connection.simulateTransaction(versionedTransaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: {
+        encoding: "base64",
+        addresses: addresses.map((address) => address.toBase58()),
+      },
+    }),
+  ]);
+
+  const balanceChanges = accounts.map(({ mint, address }, idx) => {
+    const postAccountInfo = simulation.accounts?.[idx];
+    const preAmount = getAmount(mint, preAccountInfos[idx]);
+    const postAmount = simulation.err
+      ? // the simulation failed, nothing changed
+        preAmount
+      : getAmount(
+          mint,
+          postAccountInfo
+            ? {
+                lamports: postAccountInfo.lamports,
+                data: Buffer.from(postAccountInfo.data[0], "base64"),
+              }
+            : null
+        );
+
+    return {
+      mint: mint.toBase58(),
+      account: address.toBase58(),
+      preAmount: preAmount.toString(),
+      postAmount: postAmount.toString(),
+      change: (postAmount - preAmount).toString(),
+    };
+  });
+
+  return {
+    unitsConsumed: simulation.unitsConsumed,
+    logs: simulation.logs ?? [],
+    error: parseSimulationError(simulation.err),
+    balanceChanges,
+  };
+}
@@ -1,2 +1,130 @@
+import { RouteInfo, SwapMode } from "@jup-ag/core";
+import Decimal from "decimal.js";
+import JSBI from "jsbi";
+
 export const MIN_SLIPPAGE_BPS = 0;
 export const MAX_SLIPPAGE_BPS = 10_000;
+export const AUTO_SLIPPAGE = "auto";
+
+export function getAutoSlippageConfig() {
+  return {
+    minBps: Number(process.env.AUTO_SLIPPAGE_MIN_BPS || 10),
+    maxBps: Number(process.env.AUTO_SLIPPAGE_MAX_BPS || 300),
+    // each hop after the first can move on its own
+    perHopBps: Number(process.env.AUTO_SLIPPAGE_PER_HOP_BPS || 10),
+    volatilityMultiplier: Number(
+      process.env.AUTO_SLIPPAGE_VOLATILITY_MULTIPLIER || 1.5
+    ),
+    // share of the price impact added, a large trade moves more when the pool moves
+    priceImpactMultiplier: Number(
+      process.env.AUTO_SLIPPAGE_PRICE_IMPACT_MULTIPLIER || 0.2
+    ),
+    // assumed for an amm without enough history yet
+    defaultVolatilityBps: Number(
+      process.env.AUTO_SLIPPAGE_DEFAULT_VOLATILITY_BPS || 30
+    ),
+  };
+}
+
+export type HopVolatility = {
+  ammIds: string[];
+  samples: number;
+  volatilityBps: number | undefined;
+};
+
+export type AutoSlippage = {
+  slippageBps: number;
+  volatilityBps: number;
+  volatilityPartBps: number;
+  hopsPartBps: number;
+  priceImpactPartBps: number;
+  hops: HopVolatility[];
+  reasons: string[];
+};
+
+/**
+ * Recommend a slippage from the recent output volatility of each hop, the number of hops and the price impact of the route.
+ */
+export function recommendSlippage(
+  { priceImpactPct }: RouteInfo,
+  hops: HopVolatility[],
+  config = getAutoSlippageConfig()
+): AutoSlippage {
+  const reasons: string[] = [];
+
+  const volatilityBps = hops.reduce(
+    (total, { volatilityBps }) =>
+      total + (volatilityBps ?? config.defaultVolatilityBps),
+    0
+  );
+  const volatilityPartBps = Math.ceil(
+    volatilityBps * config.volatilityMultiplier
+  );
+  const missingHistory = hops.filter(
+    ({ volatilityBps }) => volatilityBps === undefined
+  ).length;
+  reasons.push(
+    `outputs moved ${volatilityBps} bps over the recent updates, ${volatilityPartBps} bps added`
+  );
+  if (missingHistory) {
+    reasons.push(
+      `${missingHistory} hop(s) without history yet, assumed ${config.defaultVolatilityBps} bps each`
+    );
+  }
+
+  const hopsPartBps = Math.max(hops.length - 1, 0) * config.perHopBps;
+  if (hopsPartBps) {
+    reasons.push(`${hops.length} hops, ${hopsPartBps} bps added`);
+  }
+
+  const priceImpactPartBps = Math.ceil(
+    priceImpactPct * 10_000 * config.priceImpactMultiplier
+  );
+  if (priceImpactPartBps) {
+    const priceImpact = (priceImpactPct * 100).toFixed(2);
+    reasons.push(
+      `price impact of ${priceImpact}%, ${priceImpactPartBps} bps added`
+    );
+  }
+
+  const total = volatilityPartBps + hopsPartBps + priceImpactPartBps;
+  const slippageBps = Math.min(Math.max(total, config.minBps), config.maxBps);
+  if (slippageBps !== total) {
+    reasons.push(
+      `${total} bps clamped between ${config.minBps} and ${config.maxBps} bps`
+    );
+  }
+
+  return {
+    slippageBps,
+    volatilityBps,
+    volatilityPartBps,
+    hopsPartBps,
+    priceImpactPartBps,
+    hops,
+    reasons,
+  };
+}
+
+/**
+ * The route with another slippage, otherAmountThreshold is computed like @jup-ag/core does.
+ */
+export function withSlippageBps(
+  route: RouteInfo,
+  slippageBps: number
+): RouteInfo {
+  const otherAmountThreshold =
+    route.swapMode === SwapMode.ExactIn
+      ? new Decimal(route.outAmount.toString())
+          .mul(1 - slippageBps / 10_000)
+          .ceil()
+      : new Decimal(route.inAmount.toString())
+          .mul(1 + slippageBps / 10_000)
+          .floor();
+
+  return {
+    ...route,
+    slippageBps,
+    otherAmountThreshold: JSBI.BigInt(otherAmountThreshold.toFixed()),
+  };
+}
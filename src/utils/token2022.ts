@@ -0,0 +1,339 @@
+import { RouteInfo, SwapMode } from "@jup-ag/core";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  Token,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import {
+  AddressLookupTableAccount,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import Decimal from "decimal.js";
+import JSBI from "jsbi";
+import { withSlippageBps } from "./slippage";
+import { TOKEN_2022_PROGRAM_ID } from "./tokens";
+import { updateInstructions } from "./transaction";
+
+// https://github.com/solana-labs/solana-program-library/blob/master/token/program-2022/src/extension/mod.rs
+export enum ExtensionType {
+  TransferFeeConfig = 1,
+  MintCloseAuthority = 3,
+  ConfidentialTransferMint = 4,
+  DefaultAccountState = 6,
+  NonTransferable = 9,
+  InterestBearingConfig = 10,
+  PermanentDelegate = 12,
+  TransferHook = 14,
+  ConfidentialTransferFeeConfig = 16,
+  MetadataPointer = 18,
+  TokenMetadata = 19,
+  GroupPointer = 20,
+  TokenGroup = 21,
+  GroupMemberPointer = 22,
+  TokenGroupMember = 23,
+}
+
+// the extensions that leave plain transfers alone, the transfer fee is accounted in the quotes
+const SUPPORTED_EXTENSIONS = new Set<number>([
+  ExtensionType.TransferFeeConfig,
+  ExtensionType.MintCloseAuthority,
+  ExtensionType.ConfidentialTransferMint,
+  ExtensionType.InterestBearingConfig,
+  ExtensionType.PermanentDelegate,
+  ExtensionType.ConfidentialTransferFeeConfig,
+  ExtensionType.MetadataPointer,
+  ExtensionType.TokenMetadata,
+  ExtensionType.GroupPointer,
+  ExtensionType.TokenGroup,
+  ExtensionType.GroupMemberPointer,
+  ExtensionType.TokenGroupMember,
+]);
+
+// mints with extensions are padded to the size of a token account, then comes the account type and the extensions
+const BASE_ACCOUNT_LENGTH = 165;
+const EXTENSIONS_OFFSET = BASE_ACCOUNT_LENGTH + 1;
+// the transfer fee config starts with its two authorities and the withheld amount
+const OLDER_TRANSFER_FEE_OFFSET = 72;
+const NEWER_TRANSFER_FEE_OFFSET = 90;
+
+// the transfer fee config can be updated, the program is not
+const MINT_INFO_TTL_MS = 60_000;
+const EPOCH_TTL_MS = 60_000;
+
+export type TransferFee = {
+  epoch: bigint;
+  maximumFee: bigint;
+  transferFeeBasisPoints: number;
+};
+
+export type MintInfo = {
+  tokenProgramId: PublicKey;
+  extensions: number[];
+  transferFeeConfig?: {
+    olderTransferFee: TransferFee;
+    newerTransferFee: TransferFee;
+  };
+};
+
+const mintInfoCache = new Map<string, { mintInfo: MintInfo; time: number }>();
+let epochCache: { epoch: number; time: number } | undefined;
+
+function parseTransferFee(data: Buffer, offset: number): TransferFee {
+  return {
+    epoch: data.readBigUInt64LE(offset),
+    maximumFee: data.readBigUInt64LE(offset + 8),
+    transferFeeBasisPoints: data.readUInt16LE(offset + 16),
+  };
+}
+
+/**
+ * Read the owner and the extensions of a mint account, a mint of the token program has none.
+ */
+export function parseMintInfo(owner: PublicKey, data: Buffer): MintInfo {
+  const mintInfo: MintInfo = { tokenProgramId: owner, extensions: [] };
+  if (!owner.equals(TOKEN_2022_PROGRAM_ID)) return mintInfo;
+
+  let offset = EXTENSIONS_OFFSET;
+  while (offset + 4 <= data.length) {
+    const type = data.readUInt16LE(offset);
+    const length = data.readUInt16LE(offset + 2);
+    // the rest of the account is not initialized
+    if (type === 0) break;
+
+    const value = data.subarray(offset + 4, offset + 4 + length);
+    mintInfo.extensions.push(type);
+    if (type === ExtensionType.TransferFeeConfig) {
+      mintInfo.transferFeeConfig = {
+        olderTransferFee: parseTransferFee(value, OLDER_TRANSFER_FEE_OFFSET),
+        newerTransferFee: parseTransferFee(value, NEWER_TRANSFER_FEE_OFFSET),
+      };
+    }
+    offset += 4 + length;
+  }
+  return mintInfo;
+}
+
+/**
+ * The token program and the extensions of the mints, mints that are not found are left out.
+ */
+export async function getMintInfos(
+  connection: Connection,
+  mints: PublicKey[]
+): Promise<Map<string, MintInfo>> {
+  const now = Date.now();
+  const missingMints = mints.filter((mint) => {
+    const cached = mintInfoCache.get(mint.toBase58());
+    return !cached || now - cached.time > MINT_INFO_TTL_MS;
+  });
+
+  if (missingMints.length > 0) {
+    const accountInfos = await connection.getMultipleAccountsInfo(missingMints);
+    accountInfos.forEach((accountInfo, idx) => {
+      if (!accountInfo) return;
+      mintInfoCache.set(missingMints[idx].toBase58(), {
+        mintInfo: parseMintInfo(accountInfo.owner, accountInfo.data),
+        time: now,
+      });
+    });
+  }
+
+  const mintInfos = new Map<string, MintInfo>();
+  mints.forEach((mint) => {
+    const cached = mintInfoCache.get(mint.toBase58());
+    if (cached) mintInfos.set(mint.toBase58(), cached.mintInfo);
+  });
+  return mintInfos;
+}
+
+export async function getEpoch(connection: Connection) {
+  if (!epochCache || Date.now() - epochCache.time > EPOCH_TTL_MS) {
+    const { epoch } = await connection.getEpochInfo();
+    epochCache = { epoch, time: Date.now() };
+  }
+  return epochCache.epoch;
+}
+
+/**
+ * The fee withheld from a transfer of the amount, the newer fee applies from its epoch.
+ */
+export function getTransferFee(
+  { transferFeeConfig }: MintInfo,
+  epoch: number,
+  amount: Decimal
+) {
+  if (!transferFeeConfig) return new Decimal(0);
+
+  const { olderTransferFee, newerTransferFee } = transferFeeConfig;
+  const { transferFeeBasisPoints, maximumFee } =
+    BigInt(epoch) >= newerTransferFee.epoch
+      ? newerTransferFee
+      : olderTransferFee;
+  return Decimal.min(
+    amount.mul(transferFeeBasisPoints).div(10_000).ceil(),
+    new Decimal(maximumFee.toString())
+  );
+}
+
+export function getRouteMints({ marketInfos }: RouteInfo) {
+  const mints = new Map<string, PublicKey>();
+  marketInfos.forEach(({ inputMint, outputMint }) => {
+    mints.set(inputMint.toBase58(), inputMint);
+    mints.set(outputMint.toBase58(), outputMint);
+  });
+  return Array.from(mints.values());
+}
+
+/**
+ * The first mint of the route the swap cannot move, with the extensions in the way.
+ */
+export function getUnsupportedMint(
+  route: RouteInfo,
+  mintInfos: Map<string, MintInfo>
+): { mint: string; extensions: number[] } | undefined {
+  for (const mint of getRouteMints(route)) {
+    const mintInfo = mintInfos.get(mint.toBase58());
+    if (!mintInfo) continue;
+
+    const unsupportedExtensions = mintInfo.extensions.filter(
+      (extension) =>
+        !SUPPORTED_EXTENSIONS.has(extension) ||
+        // the exact out amount cannot be guaranteed once a fee is withheld from it
+        (extension === ExtensionType.TransferFeeConfig &&
+          route.swapMode === SwapMode.ExactOut)
+    );
+    if (unsupportedExtensions.length) {
+      return { mint: mint.toBase58(), extensions: unsupportedExtensions };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Take the transfer fees out of the outAmount and the otherAmountThreshold of an ExactIn route.
+ * Each hop transfers its input from the user and its output to the user, the fees of both mints are withheld.
+ */
+export function applyTransferFees(
+  route: RouteInfo,
+  mintInfos: Map<string, MintInfo>,
+  epoch: number
+): RouteInfo {
+  const hasTransferFee = getRouteMints(route).some(
+    (mint) => mintInfos.get(mint.toBase58())?.transferFeeConfig
+  );
+  if (!hasTransferFee || route.swapMode !== SwapMode.ExactIn) return route;
+
+  // the share of the quoted amounts that is left after the fees so far
+  let share = new Decimal(1);
+  const withholdFee = (mint: PublicKey, quotedAmount: JSBI) => {
+    const mintInfo = mintInfos.get(mint.toBase58());
+    const amount = share.mul(quotedAmount.toString());
+    if (!mintInfo || amount.isZero()) return;
+    share = share.mul(
+      amount.sub(getTransferFee(mintInfo, epoch, amount)).div(amount)
+    );
+  };
+  route.marketInfos.forEach(
+    ({ inputMint, outputMint, inAmount, outAmount }) => {
+      withholdFee(inputMint, inAmount);
+      withholdFee(outputMint, outAmount);
+    }
+  );
+
+  return withSlippageBps(
+    {
+      ...route,
+      outAmount: JSBI.BigInt(
+        share.mul(route.outAmount.toString()).floor().toFixed()
+      ),
+    },
+    route.slippageBps
+  );
+}
+
+/**
+ * @jup-ag/core derives the user token accounts with the token program, use the token-2022 ones for its mints.
+ * Returns the token-2022 user accounts and program, empty when the route has no token-2022 mint.
+ */
+export async function useToken2022Accounts({
+  transaction,
+  addressLookupTableAccounts,
+  userPublicKey,
+  mintInfos,
+}: {
+  transaction: Transaction | VersionedTransaction;
+  addressLookupTableAccounts: AddressLookupTableAccount[];
+  userPublicKey: PublicKey;
+  mintInfos: Map<string, MintInfo>;
+}): Promise<Set<string>> {
+  const token2022Mints = Array.from(mintInfos.entries())
+    .filter(([, { tokenProgramId }]) =>
+      tokenProgramId.equals(TOKEN_2022_PROGRAM_ID)
+    )
+    .map(([mint]) => new PublicKey(mint));
+  if (token2022Mints.length === 0) return new Set();
+
+  const replacements = new Map<string, PublicKey>();
+  await Promise.all(
+    token2022Mints.map(async (mint) => {
+      const [tokenAccount, token2022Account] = await Promise.all(
+        [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+          Token.getAssociatedTokenAddress(
+            ASSOCIATED_TOKEN_PROGRAM_ID,
+            programId,
+            mint,
+            userPublicKey
+          )
+        )
+      );
+      replacements.set(tokenAccount.toBase58(), token2022Account);
+    })
+  );
+
+  updateInstructions(transaction, addressLookupTableAccounts, (instructions) =>
+    instructions.map((instruction) => {
+      const touchesToken2022Account = instruction.keys.some(({ pubkey }) =>
+        replacements.has(pubkey.toBase58())
+      );
+      if (!touchesToken2022Account) return instruction;
+
+      // the account creation and the token instructions on the account need the token-2022 program
+      const usesTokenProgram =
+        instruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID) ||
+        instruction.programId.equals(TOKEN_PROGRAM_ID);
+      instruction.keys = instruction.keys.map((key) => {
+        const replacement = replacements.get(key.pubkey.toBase58());
+        if (replacement) return { ...key, pubkey: replacement };
+        if (usesTokenProgram && key.pubkey.equals(TOKEN_PROGRAM_ID)) {
+          return { ...key, pubkey: TOKEN_2022_PROGRAM_ID };
+        }
+        return key;
+      });
+      if (instruction.programId.equals(TOKEN_PROGRAM_ID)) {
+        instruction.programId = TOKEN_2022_PROGRAM_ID;
+      }
+      return instruction;
+    })
+  );
+
+  return new Set([
+    TOKEN_2022_PROGRAM_ID.toBase58(),
+    ...Array.from(replacements.values()).map((account) => account.toBase58()),
+  ]);
+}
+
+/**
+ * Whether the instruction runs one of the accounts as its program or is passed one of them.
+ */
+export function touchesAccounts(
+  { programId, keys }: TransactionInstruction,
+  accounts: Set<string>
+) {
+  return (
+    accounts.has(programId.toBase58()) ||
+    keys.some(({ pubkey }) => accounts.has(pubkey.toBase58()))
+  );
+}
@@ -0,0 +1,99 @@
+import { readFile } from "fs/promises";
+import { PublicKey } from "@solana/web3.js";
+import {
+  ENV,
+  Strategy,
+  TokenInfo,
+  TokenListContainer,
+  TokenListProvider,
+} from "@solana/spl-token-registry";
+
+// Local token list, either a token list ({ tokens: [...] }) or an array of tokens
+const TOKEN_LIST_PATH = process.env.TOKEN_LIST_PATH;
+
+// These always win a symbol collision, the token list has many tokens named USDC
+const WELL_KNOWN_TOKENS: Record<string, string> = {
+  SOL: "So11111111111111111111111111111111111111112",
+  USDC: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  USDT: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+};
+
+export type ResolvedToken = {
+  mint: PublicKey;
+  symbol?: string;
+  name?: string;
+  decimals?: number;
+};
+
+const mintToToken = new Map<string, TokenInfo>();
+const symbolToMint = new Map<string, string>();
+
+async function fetchTokens(path?: string): Promise<TokenInfo[]> {
+  if (path) {
+    const json = JSON.parse(await readFile(path, "utf-8"));
+    const tokens: TokenInfo[] = Array.isArray(json) ? json : json.tokens;
+    return new TokenListContainer(tokens)
+      .filterByChainId(ENV.MainnetBeta)
+      .getList();
+  }
+
+  const container = await new TokenListProvider().resolve(Strategy.CDN);
+  return container.filterByChainId(ENV.MainnetBeta).getList();
+}
+
+/**
+ * Load the token registry from TOKEN_LIST_PATH or from the solana token list CDN.
+ * A failure is logged and leaves only the well known tokens resolvable.
+ */
+export async function loadTokenRegistry(path = TOKEN_LIST_PATH) {
+  let tokens: TokenInfo[] = [];
+  try {
+    tokens = await fetchTokens(path);
+  } catch (e) {
+    console.error(`Failed to load token list, reason ${e}`);
+  }
+
+  mintToToken.clear();
+  symbolToMint.clear();
+
+  tokens.forEach((token) => {
+    mintToToken.set(token.address, token);
+    const symbol = token.symbol.toUpperCase();
+    // first one wins, the token list is roughly ordered by age
+    if (!symbolToMint.has(symbol)) {
+      symbolToMint.set(symbol, token.address);
+    }
+  });
+
+  Object.entries(WELL_KNOWN_TOKENS).forEach(([symbol, address]) => {
+    symbolToMint.set(symbol, address);
+  });
+}
+
+export function getTokenByMint(mint: string): TokenInfo | undefined {
+  return mintToToken.get(mint);
+}
+
+export function getTokens(): TokenInfo[] {
+  return Array.from(mintToToken.values());
+}
+
+/**
+ * Resolve a symbol or an address into a mint, throws if it is neither.
+ */
+export function resolveToken(idOrSymbol: string): ResolvedToken {
+  const address = symbolToMint.get(idOrSymbol.toUpperCase());
+  const mint = new PublicKey(address ?? idOrSymbol);
+  const token = mintToToken.get(mint.toBase58());
+
+  return {
+    mint,
+    symbol:
+      token?.symbol ??
+      Object.keys(WELL_KNOWN_TOKENS).find(
+        (symbol) => WELL_KNOWN_TOKENS[symbol] === mint.toBase58()
+      ),
+    name: token?.name,
+    decimals: token?.decimals,
+  };
+}
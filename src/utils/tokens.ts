@@ -0,0 +1,77 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { MintLayout, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { getTokenByMint } from "./tokenRegistry";
+
+export const TOKEN_2022_PROGRAM_ID = new PublicKey(
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb"
+);
+
+// decimals never change for a mint, so we can cache them forever
+const mintDecimalsCache = new Map<string, number>();
+// neither does the program owning it
+const mintTokenProgramCache = new Map<string, PublicKey>();
+
+/**
+ * Get the token program owning the mint, either the token or the token-2022 program.
+ */
+export async function getMintTokenProgram(
+  connection: Connection,
+  mint: PublicKey
+): Promise<PublicKey> {
+  const cached = mintTokenProgramCache.get(mint.toBase58());
+  if (cached) return cached;
+
+  const accountInfo = await connection.getAccountInfo(mint);
+  if (!accountInfo) {
+    throw new Error(`Mint ${mint.toBase58()} not found`);
+  }
+  if (
+    !accountInfo.owner.equals(TOKEN_PROGRAM_ID) &&
+    !accountInfo.owner.equals(TOKEN_2022_PROGRAM_ID)
+  ) {
+    throw new Error(`Mint ${mint.toBase58()} is not owned by a token program`);
+  }
+
+  mintTokenProgramCache.set(mint.toBase58(), accountInfo.owner);
+  return accountInfo.owner;
+}
+
+/**
+ * Get the decimals of the given mints, from the token registry or by fetching the mint accounts.
+ */
+export async function getMintDecimals(
+  connection: Connection,
+  mints: PublicKey[]
+): Promise<Map<string, number>> {
+  const missingMints = mints.filter((mint) => {
+    const address = mint.toBase58();
+    if (mintDecimalsCache.has(address)) return false;
+
+    const token = getTokenByMint(address);
+    if (token) {
+      mintDecimalsCache.set(address, token.decimals);
+      return false;
+    }
+    return true;
+  });
+
+  if (missingMints.length > 0) {
+    const accountInfos = await connection.getMultipleAccountsInfo(missingMints);
+    accountInfos.forEach((accountInfo, index) => {
+      if (accountInfo && accountInfo.data.length >= MintLayout.span) {
+        const { decimals } = MintLayout.decode(accountInfo.data);
+        mintDecimalsCache.set(missingMints[index].toBase58(), decimals);
+      }
+    });
+  }
+
+  const decimalsMap = new Map<string, number>();
+  mints.forEach((mint) => {
+    const decimals = mintDecimalsCache.get(mint.toBase58());
+    if (decimals !== undefined) {
+      decimalsMap.set(mint.toBase58(), decimals);
+    }
+  });
+
+  return decimalsMap;
+}
@@ -0,0 +1,201 @@
+import { JUPITER_PROGRAM_ID } from "@jup-ag/core";
+import {
+  AddressLookupTableAccount,
+  BlockhashWithExpiryBlockHeight,
+  ComputeBudgetProgram,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+/**
+ * The instructions of a transaction, versioned transactions are decompiled with their lookup tables.
+ */
+export function getInstructions(
+  transaction: Transaction | VersionedTransaction,
+  addressLookupTableAccounts: AddressLookupTableAccount[]
+): TransactionInstruction[] {
+  if (transaction instanceof Transaction) {
+    return transaction.instructions;
+  }
+
+  return TransactionMessage.decompile(transaction.message, {
+    addressLookupTableAccounts,
+  }).instructions;
+}
+
+/**
+ * The index of the jupiter program instruction, what comes before sets up the accounts and what comes after cleans them up.
+ */
+export function getSwapInstructionIndex(
+  instructions: TransactionInstruction[]
+) {
+  const swapIndex = instructions.findIndex(({ programId }) =>
+    programId.equals(JUPITER_PROGRAM_ID)
+  );
+  if (swapIndex === -1) {
+    throw new Error("Swap instruction not found");
+  }
+  return swapIndex;
+}
+
+export function isComputeBudgetInstruction({
+  programId,
+}: TransactionInstruction) {
+  return programId.equals(ComputeBudgetProgram.programId);
+}
+
+/**
+ * JSON friendly instruction, the data is base64 encoded.
+ */
+export function serializeInstruction({
+  programId,
+  keys,
+  data,
+}: TransactionInstruction) {
+  return {
+    programId: programId.toBase58(),
+    accounts: keys.map(({ pubkey, isSigner, isWritable }) => ({
+      pubkey: pubkey.toBase58(),
+      isSigner,
+      isWritable,
+    })),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * Rewrite the instructions of a transaction in place, versioned transactions are decompiled and recompiled with the same lookup tables.
+ */
+export function updateInstructions(
+  transaction: Transaction | VersionedTransaction,
+  addressLookupTableAccounts: AddressLookupTableAccount[],
+  update: (instructions: TransactionInstruction[]) => TransactionInstruction[]
+) {
+  if (transaction instanceof Transaction) {
+    transaction.instructions = update(transaction.instructions);
+    return;
+  }
+
+  const message = TransactionMessage.decompile(transaction.message, {
+    addressLookupTableAccounts,
+  });
+  message.instructions = update(message.instructions);
+  transaction.message = message.compileToV0Message(addressLookupTableAccounts);
+}
+
+/**
+ * Every account the transaction writes to, including the ones loaded from lookup tables.
+ */
+export function getWritableAccounts(
+  transaction: Transaction | VersionedTransaction,
+  addressLookupTableAccounts: AddressLookupTableAccount[]
+): PublicKey[] {
+  const message =
+    transaction instanceof Transaction
+      ? transaction.compileMessage()
+      : transaction.message;
+  const accountKeys = message.getAccountKeys({ addressLookupTableAccounts });
+
+  const writableAccounts: PublicKey[] = [];
+  for (let index = 0; index < accountKeys.length; index++) {
+    if (message.isAccountWritable(index)) {
+      writableAccounts.push(accountKeys.get(index)!);
+    }
+  }
+  return writableAccounts;
+}
+
+/**
+ * Whether the transaction serializes within the packet size, a legacy transaction throws when it does not.
+ */
+export function fitsInTransaction(
+  transaction: Transaction | VersionedTransaction
+) {
+  try {
+    const serialized =
+      transaction instanceof Transaction
+        ? transaction.serialize({
+            requireAllSignatures: false,
+            verifySignatures: false,
+          })
+        : transaction.serialize();
+    return serialized.length <= PACKET_DATA_SIZE;
+  } catch (e) {
+    return false;
+  }
+}
+
+export type TransactionRole = "setup" | "swap" | "cleanup";
+
+export type SwapTransactionPart = {
+  role: TransactionRole;
+  transaction: Transaction | VersionedTransaction;
+  // the payer first, then the other signers of the instructions
+  signers: PublicKey[];
+};
+
+function getSigners(payer: PublicKey, instructions: TransactionInstruction[]) {
+  const signers = new Map([[payer.toBase58(), payer]]);
+  instructions.forEach(({ keys }) =>
+    keys
+      .filter(({ isSigner }) => isSigner)
+      .forEach(({ pubkey }) => signers.set(pubkey.toBase58(), pubkey))
+  );
+  return Array.from(signers.values());
+}
+
+/**
+ * Split a swap transaction into setup, swap and cleanup transactions of the same kind, in the order to send them.
+ * The compute budget instructions stay with the swap, an empty setup or cleanup is left out.
+ */
+export function splitSwapTransaction(
+  transaction: Transaction | VersionedTransaction,
+  addressLookupTableAccounts: AddressLookupTableAccount[],
+  {
+    payer,
+    blockhash,
+    lastValidBlockHeight,
+  }: BlockhashWithExpiryBlockHeight & { payer: PublicKey }
+): SwapTransactionPart[] {
+  const instructions = getInstructions(transaction, addressLookupTableAccounts);
+  const swapIndex = getSwapInstructionIndex(instructions);
+  const isNotComputeBudget = (instruction: TransactionInstruction) =>
+    !isComputeBudgetInstruction(instruction);
+
+  const parts: Array<[TransactionRole, TransactionInstruction[]]> = [
+    ["setup", instructions.slice(0, swapIndex).filter(isNotComputeBudget)],
+    [
+      "swap",
+      [
+        ...instructions.filter(isComputeBudgetInstruction),
+        instructions[swapIndex],
+      ],
+    ],
+    ["cleanup", instructions.slice(swapIndex + 1).filter(isNotComputeBudget)],
+  ];
+
+  return parts
+    .filter(([, partInstructions]) => partInstructions.length > 0)
+    .map(([role, partInstructions]) => ({
+      role,
+      transaction:
+        transaction instanceof Transaction
+          ? new Transaction({
+              feePayer: payer,
+              blockhash,
+              lastValidBlockHeight,
+            }).add(...partInstructions)
+          : new VersionedTransaction(
+              new TransactionMessage({
+                payerKey: payer,
+                recentBlockhash: blockhash,
+                instructions: partInstructions,
+              }).compileToV0Message(addressLookupTableAccounts)
+            ),
+      signers: getSigners(payer, partInstructions),
+    }));
+}